@@ -1,114 +1,184 @@
 // src/api/MegaverseApiClient.ts
 
-import { ComethDirection, SoloonColor } from "../domain/models";
+import {
+  Body,
+  BodyKind,
+  bodyPayload,
+  bodyType,
+  Cell,
+  ComethDirection,
+  CurrentCell,
+  Position,
+  SoloonColor,
+} from "../domain/models";
+import { RateLimiter } from "../utils/rateLimiter";
+import { Logger, defaultLogger } from "../utils/logger";
+import {
+  apiErrorFor,
+  InvalidResponseError,
+  NetworkError,
+  parseBody,
+  RequestTimeoutError,
+  ResponseProblem,
+} from "./errors";
+import {
+  UnknownTokenPolicy,
+  Validated,
+  validateCurrentMap,
+  validateGoalMap,
+} from "./validateResponse";
+
+export * from "./errors";
+export {
+  UNKNOWN_TOKEN_POLICIES,
+  type UnknownTokenPolicy,
+} from "./validateResponse";
+export type { CurrentCell } from "../domain/models";
 
-/* -------------------------------------------------------------------------- */
-/*  Models                                                                     */
-/* -------------------------------------------------------------------------- */
-export type CurrentCell =
-  | null
-  | { type: 0 }
-  | { type: 1; color: SoloonColor }
-  | { type: 2; direction: ComethDirection };
+/**
+ * A map as read from the API. Under the "skip" policy, `skipped` lists
+ * the cells whose entry was unknown: they read as empty, but nothing
+ * is known about them, so they are to be left alone.
+ */
+export type MapRead<T> = T[][] & { skipped?: Position[] };
+
+/** per-request options of a write */
+export interface WriteOptions {
+  /** send even once the client's signal aborted (finishes a started replace) */
+  evenIfAborted?: boolean;
+}
 
 export interface IMegaverseApiClient {
   /* Maps */
-  getGoalMap(): Promise<string[][]>;
-  getCurrentMap(): Promise<CurrentCell[][]>;
+  getGoalMap(): Promise<MapRead<string>>;
+  getCurrentMap(): Promise<MapRead<CurrentCell>>;
 
-  /* Polyanets */
-  createPolyanet(row: number, column: number): Promise<void>;
-  deletePolyanet(row: number, column: number): Promise<void>;
-
-  /* Soloons  */
-  createSoloon(
+  /* Bodies (any type in the domain registry) */
+  createBody(
     row: number,
     column: number,
-    color: SoloonColor
+    body: Body,
+    options?: WriteOptions
   ): Promise<void>;
-  deleteSoloon(row: number, column: number): Promise<void>;
-
-  /* Comeths  */
-  createCometh(
+  deleteBody(
     row: number,
     column: number,
-    direction: ComethDirection
+    kind: BodyKind
   ): Promise<void>;
-  deleteCometh(row: number, column: number): Promise<void>;
 }
 
-/**
- * Custom error with API response details to help with retry logic
- */
-export class ApiError extends Error {
-  headers: Headers;
-  status: number;
-
-  constructor(message: string, response: Response) {
-    super(message);
-    this.name = "ApiError";
-    this.headers = response.headers;
-    this.status = response.status;
-  }
+export type FetchLike = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+export interface MegaverseApiClientOptions {
+  baseUrl?: string; // Defaults to MEGAVERSE_BASE_URL, then the public API
+  fetch?: FetchLike; // Transport (defaults to the global fetch)
+  timeoutMs?: number; // Abort requests slower than this (0 disables)
+  limiter?: RateLimiter; // Budget every request draws from (share it!)
+  signal?: AbortSignal; // Once aborted, no new request is sent
+  unknownTokens?: UnknownTokenPolicy; // Fail on unknown map entries (default) or skip them
+  logger?: Logger; // Where skipped map entries are reported
 }
 
+export const DEFAULT_BASE_URL = "https://challenge.crossmint.io/api";
+
 /* -------------------------------------------------------------------------- */
 /*  API Client                                                                 */
 /* -------------------------------------------------------------------------- */
 export class MegaverseApiClient implements IMegaverseApiClient {
-  private readonly BASE_URL = "https://challenge.crossmint.io/api";
-
-  constructor(private readonly candidateId: string) {}
+  private readonly baseUrl: string;
+  private readonly fetchFn: FetchLike;
+  private readonly timeoutMs: number;
+  private readonly signal?: AbortSignal;
+  private readonly unknownTokens: UnknownTokenPolicy;
+  private readonly log: Logger;
+  readonly limiter: RateLimiter;
+
+  constructor(
+    private readonly candidateId: string,
+    options: MegaverseApiClientOptions = {}
+  ) {
+    this.baseUrl = (
+      options.baseUrl ??
+      process.env.MEGAVERSE_BASE_URL ??
+      DEFAULT_BASE_URL
+    ).replace(/\/+$/, "");
+    // Resolve the global lazily so it can be swapped after construction
+    this.fetchFn =
+      options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.limiter = options.limiter ?? new RateLimiter();
+    this.signal = options.signal;
+    this.unknownTokens = options.unknownTokens ?? "fail";
+    this.log = options.logger ?? defaultLogger;
+  }
 
   /* --- MAP OPERATIONS --- */
 
-  async getGoalMap(): Promise<string[][]> {
-    const resp = await fetch(
-      `${this.BASE_URL}/map/${this.candidateId}/goal`
+  async getGoalMap(): Promise<MapRead<Cell>> {
+    const what = "Goal map request";
+    const body = await this.request(
+      what,
+      `map/${this.candidateId}/goal`,
+      {},
+      (resp) => readJson(what, resp)
+    );
+    return this.accept(
+      what,
+      validateGoalMap(what, body, this.unknownTokens)
     );
-
-    if (!resp.ok) {
-      throw new ApiError(
-        `Goal map request failed (${
-          resp.status
-        }): ${await resp.text()}`,
-        resp
-      );
-    }
-
-    const { goal } = (await resp.json()) as { goal: string[][] };
-    return goal;
   }
 
-  async getCurrentMap(): Promise<CurrentCell[][]> {
-    const resp = await fetch(
-      `${this.BASE_URL}/map/${this.candidateId}`
+  async getCurrentMap(): Promise<MapRead<CurrentCell>> {
+    const what = "Current map request";
+    const body = await this.request(
+      what,
+      `map/${this.candidateId}`,
+      {},
+      (resp) => readJson(what, resp)
+    );
+    return this.accept(
+      what,
+      validateCurrentMap(what, body, this.unknownTokens)
     );
+  }
 
-    if (!resp.ok) {
-      throw new ApiError(
-        `Current map request failed (${
-          resp.status
-        }): ${await resp.text()}`,
-        resp
-      );
-    }
+  /* --- BODIES --- */
 
-    const body = (await resp.json()) as {
-      map: { content: CurrentCell[][] };
-    };
+  /** POST to the body type's resource with its attribute (if any) */
+  async createBody(
+    row: number,
+    column: number,
+    body: Body,
+    options: WriteOptions = {}
+  ): Promise<void> {
+    const { resource } = bodyType(body.kind);
+    await this.post(
+      resource,
+      { row, column, ...bodyPayload(body) },
+      options
+    );
+  }
 
-    return body.map.content;
+  /** DELETE at the resource of that kind of body */
+  async deleteBody(
+    row: number,
+    column: number,
+    kind: BodyKind
+  ): Promise<void> {
+    await this.del(bodyType(kind).resource, { row, column });
   }
 
   /* --- POLYANETS --- */
 
   async createPolyanet(row: number, column: number): Promise<void> {
-    await this.post("polyanets", { row, column });
+    await this.createBody(row, column, { kind: "polyanet" });
   }
 
   async deletePolyanet(row: number, column: number): Promise<void> {
-    await this.del("polyanets", { row, column });
+    await this.deleteBody(row, column, "polyanet");
   }
 
   /* --- SOLOONS --- */
@@ -118,11 +188,11 @@ export class MegaverseApiClient implements IMegaverseApiClient {
     column: number,
     color: SoloonColor
   ): Promise<void> {
-    await this.post("soloons", { row, column, color });
+    await this.createBody(row, column, { kind: "soloon", color });
   }
 
   async deleteSoloon(row: number, column: number): Promise<void> {
-    await this.del("soloons", { row, column });
+    await this.deleteBody(row, column, "soloon");
   }
 
   /* --- COMETHS --- */
@@ -132,64 +202,159 @@ export class MegaverseApiClient implements IMegaverseApiClient {
     column: number,
     direction: ComethDirection
   ): Promise<void> {
-    await this.post("comeths", { row, column, direction });
+    await this.createBody(row, column, { kind: "cometh", direction });
   }
 
   async deleteCometh(row: number, column: number): Promise<void> {
-    await this.del("comeths", { row, column });
+    await this.deleteBody(row, column, "cometh");
   }
 
   /* --- HELPER METHODS --- */
 
+  /** a validated map, reporting the entries that were skipped */
+  private accept<T>(
+    what: string,
+    { value, skipped, cells }: Validated<T[][]>
+  ): MapRead<T> {
+    if (skipped.length) {
+      this.log.warn(
+        `⚠ ${what}: read ${
+          skipped.length
+        } unknown entries as empty (${summarize(skipped)})`,
+        { skipped }
+      );
+    }
+    return cells.length
+      ? Object.assign(value, { skipped: cells })
+      : value;
+  }
+
   private async post(
     resource: string,
-    payload: Record<string, unknown>
+    payload: Record<string, unknown>,
+    options: WriteOptions = {}
   ) {
-    const resp = await fetch(`${this.BASE_URL}/${resource}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      body: JSON.stringify({
-        candidateId: this.candidateId,
-        ...payload,
-      }),
-    });
-
-    if (!resp.ok) {
-      throw new ApiError(
-        `POST ${resource} failed (${
-          resp.status
-        }): ${await resp.text()}`,
-        resp
-      );
-    }
+    await this.write("POST", resource, payload, options);
   }
 
   private async del(
     resource: string,
     coords: { row: number; column: number }
   ) {
-    const resp = await fetch(`${this.BASE_URL}/${resource}`, {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
+    await this.write("DELETE", resource, coords);
+  }
+
+  private async write(
+    method: "POST" | "DELETE",
+    resource: string,
+    payload: Record<string, unknown>,
+    options: WriteOptions = {}
+  ) {
+    await this.request(
+      `${method} ${resource}`,
+      resource,
+      {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify({
+          candidateId: this.candidateId,
+          ...payload,
+        }),
       },
-      body: JSON.stringify({
-        candidateId: this.candidateId,
-        ...coords,
-      }),
-    });
-
-    if (!resp.ok) {
-      throw new ApiError(
-        `DELETE ${resource} failed (${
-          resp.status
-        }): ${await resp.text()}`,
-        resp
-      );
+      undefined,
+      options
+    );
+  }
+
+  /**
+   * Send a request through the configured transport once the limiter
+   * allows it, aborting it after `timeoutMs`, and report how it went back
+   * to the limiter. `read` consumes the body while the timeout still
+   * applies. After `signal` aborts, requests still waiting for the
+   * limiter are dropped (unless `evenIfAborted`), but ones already sent
+   * are left to finish (or time out) so the server and our view of it
+   * stay in step.
+   */
+  private async request<T = void>(
+    what: string,
+    path: string,
+    init: RequestInit,
+    read?: (resp: Response) => Promise<T>,
+    { evenIfAborted = false }: WriteOptions = {}
+  ): Promise<T> {
+    await this.limiter.getToken(
+      evenIfAborted ? undefined : this.signal
+    );
+
+    const controller = new AbortController();
+    const timer =
+      this.timeoutMs > 0
+        ? setTimeout(() => controller.abort(), this.timeoutMs)
+        : undefined;
+    const started = Date.now();
+
+    try {
+      const resp = await this.fetchFn(`${this.baseUrl}/${path}`, {
+        ...init,
+        signal: controller.signal,
+      }).catch((err) => {
+        if (controller.signal.aborted) throw err;
+        throw new NetworkError(
+          `${what} failed: ${err?.message ?? err}`,
+          err
+        );
+      });
+      this.limiter.record({
+        status: resp.status,
+        latencyMs: Date.now() - started,
+        headers: resp.headers,
+      });
+
+      if (!resp.ok) {
+        const text = await resp.text();
+        throw apiErrorFor(
+          `${what} failed (${resp.status}): ${text}`,
+          resp,
+          parseBody(text)
+        );
+      }
+
+      return read ? await read(resp) : (undefined as T);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        this.limiter.record({ timedOut: true });
+        throw new RequestTimeoutError(what, this.timeoutMs);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
     }
   }
 }
+
+/** the body as JSON; a 2xx that isn't JSON is an invalid response */
+async function readJson(
+  what: string,
+  resp: Response
+): Promise<unknown> {
+  try {
+    return await resp.json();
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err;
+    throw new InvalidResponseError(what, [
+      { path: "body", message: err.message, unknown: false },
+    ]);
+  }
+}
+
+/** the first few problems, for a one-line warning */
+function summarize(problems: ResponseProblem[]): string {
+  const shown = problems
+    .slice(0, 3)
+    .map((p) => `${p.path}: ${p.message}`);
+  if (problems.length > 3) shown.push("…");
+  return shown.join(", ");
+}
@@ -0,0 +1,181 @@
+// src/api/errors.ts
+
+/** the parts of a `Response` an error keeps hold of */
+export interface ResponseInfo {
+  status: number;
+  headers?: Headers;
+}
+
+/**
+ * Custom error with API response details to help with retry logic.
+ * `body` is the response body, parsed as JSON when it is JSON.
+ */
+export class ApiError extends Error {
+  headers: Headers;
+  status: number;
+  body: unknown;
+
+  constructor(
+    message: string,
+    response: ResponseInfo,
+    body?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.headers = response.headers ?? new Headers();
+    this.status = response.status;
+    this.body = body;
+  }
+}
+
+/** 429: too many requests, wait (see `Retry-After`) and try again */
+export class RateLimitedError extends ApiError {
+  constructor(
+    message: string,
+    response: ResponseInfo,
+    body?: unknown
+  ) {
+    super(message, response, body);
+    this.name = "RateLimitedError";
+  }
+}
+
+/** 5xx: the server failed, the same request may well succeed later */
+export class ServerError extends ApiError {
+  constructor(
+    message: string,
+    response: ResponseInfo,
+    body?: unknown
+  ) {
+    super(message, response, body);
+    this.name = "ServerError";
+  }
+}
+
+/** 404: the candidate or resource does not exist */
+export class NotFoundError extends ApiError {
+  constructor(
+    message: string,
+    response: ResponseInfo,
+    body?: unknown
+  ) {
+    super(message, response, body);
+    this.name = "NotFoundError";
+  }
+}
+
+/** any other 4xx: the request itself is wrong, repeating it won't help */
+export class BadRequestError extends ApiError {
+  constructor(
+    message: string,
+    response: ResponseInfo,
+    body?: unknown
+  ) {
+    super(message, response, body);
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * The request never got a response: the connection failed or was reset
+ */
+export class NetworkError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Raised when a request is aborted because it took longer than `timeoutMs`
+ */
+export class RequestTimeoutError extends NetworkError {
+  constructor(what: string, readonly timeoutMs: number) {
+    super(`${what} timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/** one thing wrong with a response body, e.g. a cell's `type` */
+export interface ResponseProblem {
+  path: string; // Where in the body: "goal[2][3]", "map.content[0][1].color"
+  message: string;
+  unknown: boolean; // An unrecognised token or body, which may be skipped
+}
+
+/** problems listed in an `InvalidResponseError` message */
+const LISTED_PROBLEMS = 10;
+
+/**
+ * A 2xx response whose body is not what the API documents. Never
+ * retried: the same request would get the same answer.
+ */
+export class InvalidResponseError extends Error {
+  constructor(
+    what: string,
+    public readonly problems: ResponseProblem[]
+  ) {
+    const listed = problems
+      .slice(0, LISTED_PROBLEMS)
+      .map((p) => `${p.path}: ${p.message}`);
+    if (problems.length > LISTED_PROBLEMS) {
+      listed.push(`… and ${problems.length - LISTED_PROBLEMS} more`);
+    }
+    super(
+      `${what} returned an invalid response:\n  ${listed.join(
+        "\n  "
+      )}`
+    );
+    this.name = "InvalidResponseError";
+  }
+}
+
+/** the error class matching a failed response's status */
+export function apiErrorFor(
+  message: string,
+  response: ResponseInfo,
+  body?: unknown
+): ApiError {
+  const { status } = response;
+  if (status === 429) {
+    return new RateLimitedError(message, response, body);
+  }
+  if (status >= 500) {
+    return new ServerError(message, response, body);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, response, body);
+  }
+  if (status >= 400) {
+    return new BadRequestError(message, response, body);
+  }
+  return new ApiError(message, response, body);
+}
+
+/** rate limits, server errors and lost requests are worth another try */
+export function isRetryable(err: unknown): boolean {
+  return (
+    err instanceof RateLimitedError ||
+    err instanceof ServerError ||
+    err instanceof NetworkError
+  );
+}
+
+/**
+ * The write may have happened anyway: the request was lost or failed
+ * on the server after all, or a repeat was refused because the object
+ * already exists (or is already gone). Only a 429 surely did nothing.
+ */
+export function mayHaveApplied(err: unknown): boolean {
+  if (err instanceof RateLimitedError) return false;
+  return err instanceof ApiError || err instanceof NetworkError;
+}
+
+/** response text as JSON when it parses, else the text itself */
+export function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
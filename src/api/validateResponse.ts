@@ -0,0 +1,239 @@
+// src/api/validateResponse.ts
+
+import {
+  Cell,
+  CurrentCell,
+  isCell,
+  Position,
+  REGISTRY,
+} from "../domain/models";
+import { InvalidResponseError, ResponseProblem } from "./errors";
+
+/**
+ * What to do with goal tokens and map cells this client does not know:
+ * fail the request, or read them as empty and report where they were
+ */
+export const UNKNOWN_TOKEN_POLICIES = ["fail", "skip"] as const;
+export type UnknownTokenPolicy =
+  (typeof UNKNOWN_TOKEN_POLICIES)[number];
+
+/** a response body checked against its schema */
+export interface Validated<T> {
+  value: T;
+  skipped: ResponseProblem[]; // Unknown entries read as empty ("skip" only)
+  cells: Position[]; // Where those entries were
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Responses                                                                 */
+/* -------------------------------------------------------------------------- */
+/**
+ * Check a `GET /map/:id/goal` body: `{ goal }`, a rectangular grid of
+ * known tokens. Unknown tokens become SPACE under the "skip" policy.
+ */
+export function validateGoalMap(
+  what: string,
+  body: unknown,
+  policy: UnknownTokenPolicy
+): Validated<Cell[][]> {
+  return settle(
+    what,
+    policy,
+    readGrid(
+      isObject(body) ? body.goal : undefined,
+      "goal",
+      "SPACE",
+      readToken
+    )
+  );
+}
+
+/**
+ * Check a `GET /map/:id` body: `{ map: { content } }`, a rectangular
+ * grid of `null` or registered cells. Unknown cells become `null`
+ * under the "skip" policy.
+ */
+export function validateCurrentMap(
+  what: string,
+  body: unknown,
+  policy: UnknownTokenPolicy
+): Validated<CurrentCell[][]> {
+  const map = isObject(body) ? body.map : undefined;
+  return settle(
+    what,
+    policy,
+    readGrid(
+      isObject(map) ? map.content : undefined,
+      "map.content",
+      null,
+      readCell
+    )
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Helpers                                                                   */
+/* -------------------------------------------------------------------------- */
+/** a cell's value, or what is wrong with it */
+type CellReader<T> = (
+  value: unknown,
+  path: string
+) => T | ResponseProblem;
+
+interface GridResult<T> {
+  grid: T[][];
+  problems: ResponseProblem[];
+  unknownAt: Position[]; // Cells whose entry is unknown, not malformed
+}
+
+/** throw unless every problem is an unknown entry the policy skips */
+function settle<T>(
+  what: string,
+  policy: UnknownTokenPolicy,
+  { grid, problems, unknownAt }: GridResult<T>
+): Validated<T[][]> {
+  const fatal = problems.filter(
+    (p) => !p.unknown || policy === "fail"
+  );
+  if (fatal.length) throw new InvalidResponseError(what, fatal);
+  return { value: grid, skipped: problems, cells: unknownAt };
+}
+
+/** check the grid is a rectangle, reading every cell with `read` */
+function readGrid<T>(
+  value: unknown,
+  path: string,
+  empty: T,
+  read: CellReader<T>
+): GridResult<T> {
+  const problems: ResponseProblem[] = [];
+  const unknownAt: Position[] = [];
+  const problem = (at: string, message: string) =>
+    problems.push({ path: at, message, unknown: false });
+
+  if (!Array.isArray(value)) {
+    problem(
+      path,
+      `expected an array of rows, got ${describe(value)}`
+    );
+    return { grid: [], problems, unknownAt };
+  }
+
+  const width = Array.isArray(value[0]) ? value[0].length : 0;
+  const grid = value.map((row: unknown, r) => {
+    const rowPath = `${path}[${r}]`;
+    if (!Array.isArray(row)) {
+      problem(
+        rowPath,
+        `expected an array of cells, got ${describe(row)}`
+      );
+      return [];
+    }
+    if (row.length !== width) {
+      problem(rowPath, `has ${row.length} cells, expected ${width}`);
+    }
+    return row.map((cell: unknown, c) => {
+      const result = read(cell, `${rowPath}[${c}]`);
+      if (!isProblem(result)) return result;
+      problems.push(result);
+      if (result.unknown) unknownAt.push({ row: r, column: c });
+      return empty;
+    });
+  });
+  return { grid, problems, unknownAt };
+}
+
+function readToken(
+  value: unknown,
+  path: string
+): Cell | ResponseProblem {
+  if (typeof value !== "string") {
+    return {
+      path,
+      message: `expected a token, got ${describe(value)}`,
+      unknown: false,
+    };
+  }
+  if (!isCell(value)) {
+    return {
+      path,
+      message: `unknown token "${value}"`,
+      unknown: true,
+    };
+  }
+  return value;
+}
+
+function readCell(
+  value: unknown,
+  path: string
+): CurrentCell | ResponseProblem {
+  if (value === null) return null;
+  if (!isObject(value)) {
+    return {
+      path,
+      message: `expected null or a cell, got ${describe(value)}`,
+      unknown: false,
+    };
+  }
+
+  const { type } = value;
+  if (!Number.isInteger(type)) {
+    return {
+      path: `${path}.type`,
+      message: `expected an integer, got ${describe(type)}`,
+      unknown: false,
+    };
+  }
+  const body = REGISTRY.find((t) => t.code === type);
+  if (!body) {
+    return {
+      path: `${path}.type`,
+      message: `unknown cell type ${type}`,
+      unknown: true,
+    };
+  }
+
+  const { attribute } = body;
+  if (!attribute) return { type } as CurrentCell;
+  const attr = value[attribute.name];
+  const attrPath = `${path}.${attribute.name}`;
+  if (typeof attr !== "string") {
+    return {
+      path: attrPath,
+      message: `expected a string, got ${describe(attr)}`,
+      unknown: false,
+    };
+  }
+  if (!attribute.values.includes(attr)) {
+    return {
+      path: attrPath,
+      message: `unknown ${body.kind} ${attribute.name} "${attr}"`,
+      unknown: true,
+    };
+  }
+  return { type, [attribute.name]: attr } as CurrentCell;
+}
+
+function isProblem<T>(
+  value: T | ResponseProblem
+): value is ResponseProblem {
+  return isObject(value) && typeof value.path === "string";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value)
+  );
+}
+
+/** short description of an unexpected value for error messages */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
@@ -0,0 +1,327 @@
+// src/cli/args.ts
+
+import {
+  UNKNOWN_TOKEN_POLICIES,
+  UnknownTokenPolicy,
+} from "../api/validateResponse";
+import {
+  LOG_FORMATS,
+  LOG_LEVELS,
+  LogFormat,
+  LogLevel,
+} from "../utils/logger";
+
+/* -------------------------------------------------------------------------- */
+/*  Commands, flags & exit codes                                              */
+/* -------------------------------------------------------------------------- */
+export const COMMANDS = {
+  build: "Build the goal universe (or --target map)",
+  resume: "Resume an interrupted build from the journal",
+  clean: "Remove every object from the universe",
+  plan: "Print what build would change; [out.json] saves it",
+  apply: "Carry out a plan saved with plan <file>",
+  show: "Draw [goal|current|diff] in the terminal",
+  snapshot: "Save the current universe to [file]",
+  restore: "Reconcile the universe toward a saved <file>",
+  "mock-server": "Serve an offline API on [port] with [goal file]",
+  help: "Show this help",
+} as const;
+
+export type Command = keyof typeof COMMANDS;
+
+/** commands that never talk to the Megaverse API */
+const OFFLINE: readonly Command[] = ["help", "mock-server"];
+
+export const EXIT = {
+  OK: 0, // Everything done
+  FAILURE: 1, // Unexpected error, nothing reliable was done
+  USAGE: 2, // Bad command line, nothing was done
+  PARTIAL: 3, // Ran to the end but some operations failed
+  INTERRUPTED: 130, // Stopped by Ctrl+C after draining requests in flight
+} as const;
+
+export interface CliOptions {
+  command: Command;
+  operands: string[]; // Positional arguments after the command
+  candidateId?: string;
+  target?: string; // --target <file>
+  config?: string; // --config <file>
+  concurrency?: number; // --concurrency <n>
+  maxConcurrency?: number; // --max-concurrency <n>
+  batchSize?: number; // --batch-size <n>
+  seed?: number; // --seed <n>
+  dryRun: boolean; // --dry-run
+  json: boolean; // --json
+  report?: string; // --report <file>
+  logFormat?: LogFormat; // --log-format pretty|json
+  logLevel?: LogLevel; // --log-level debug|info|warn|error
+  unknownTokens?: UnknownTokenPolicy; // --unknown-tokens fail|skip
+}
+
+type FlagKey = Exclude<keyof CliOptions, "command" | "operands">;
+
+interface FlagSpec {
+  key: FlagKey;
+  type: "string" | "int" | "boolean";
+  help: string;
+  choices?: readonly string[]; // Allowed values of a string flag
+  commands?: readonly Command[]; // Only these accept it (default: all)
+}
+
+const FLAGS: Record<string, FlagSpec> = {
+  "--candidate": {
+    key: "candidateId",
+    type: "string",
+    help: "Candidate ID (or CANDIDATE_ID env var)",
+  },
+  "--target": {
+    key: "target",
+    type: "string",
+    help: "Map file (JSON or ASCII art) to use instead of the goal",
+    commands: ["build", "plan", "show"],
+  },
+  "--config": {
+    key: "config",
+    type: "string",
+    help: "Tuning file (default ./megaverse.config.json if present)",
+  },
+  "--concurrency": {
+    key: "concurrency",
+    type: "int",
+    help: "Parallel requests to start with",
+  },
+  "--max-concurrency": {
+    key: "maxConcurrency",
+    type: "int",
+    help: "Ceiling for the adaptive concurrency",
+  },
+  "--batch-size": {
+    key: "batchSize",
+    type: "int",
+    help: "Operations per batch",
+  },
+  "--seed": {
+    key: "seed",
+    type: "int",
+    help: "Seed for retry jitter, to replay a run exactly",
+  },
+  "--dry-run": {
+    key: "dryRun",
+    type: "boolean",
+    help: "Print the plan for build/clean/restore, change nothing",
+    commands: ["build", "clean", "restore"],
+  },
+  "--json": {
+    key: "json",
+    type: "boolean",
+    help: "Machine-readable output for plan and show",
+  },
+  "--report": {
+    key: "report",
+    type: "string",
+    help: "Save the end-of-run report of build/clean/resume as JSON",
+  },
+  "--log-format": {
+    key: "logFormat",
+    type: "string",
+    help: "Log lines as pretty text or JSON lines (pretty|json)",
+    choices: LOG_FORMATS,
+  },
+  "--log-level": {
+    key: "logLevel",
+    type: "string",
+    help: "Least severe level logged (debug|info|warn|error)",
+    choices: LOG_LEVELS,
+  },
+  "--unknown-tokens": {
+    key: "unknownTokens",
+    type: "string",
+    help: "Unknown tokens in API maps: fail, or skip and warn (fail|skip)",
+    choices: UNKNOWN_TOKEN_POLICIES,
+  },
+};
+
+/** how many operands each command accepts */
+const OPERANDS: Record<Command, [min: number, max: number]> = {
+  build: [0, 0],
+  resume: [0, 0],
+  clean: [0, 0],
+  plan: [0, 1],
+  apply: [1, 1],
+  show: [0, 1],
+  snapshot: [0, 1],
+  restore: [1, 1],
+  "mock-server": [0, 2],
+  help: [0, 0],
+};
+
+/**
+ * Invalid command line; `main` prints the message and the usage text
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function isCommand(word: string | undefined): word is Command {
+  return word !== undefined && Object.hasOwn(COMMANDS, word);
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Parser                                                                    */
+/* -------------------------------------------------------------------------- */
+/**
+ * Parse `argv` (without node and script path). Accepts both
+ * `<command> --candidate <id>` and the legacy `<id> [command]` form.
+ * Flags may appear anywhere; `--` stops flag parsing.
+ *
+ * The legacy form only applies without `--candidate`, and with
+ * `CANDIDATE_ID` set only when a command follows the ID (which then
+ * wins over the env var). Otherwise a first word that isn't a command
+ * is a typo, not an ID, and is rejected.
+ */
+export function parseArgs(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): CliOptions {
+  const flags: Partial<CliOptions> = {};
+  const given: string[] = []; // Flag names, to check them per command
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === "-h" || arg === "--help") {
+      return {
+        command: "help",
+        operands: [],
+        dryRun: false,
+        json: false,
+      };
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const name = eq >= 0 ? arg.slice(0, eq) : arg;
+    const spec = FLAGS[name];
+    if (!spec) throw new UsageError(`Unknown option ${name}`);
+    given.push(name);
+
+    if (spec.type === "boolean") {
+      if (eq >= 0) throw new UsageError(`${name} takes no value`);
+      (flags[spec.key] as boolean) = true;
+      continue;
+    }
+
+    const value = eq >= 0 ? arg.slice(eq + 1) : argv[++i];
+    if (value === undefined || value === "") {
+      throw new UsageError(`${name} needs a value`);
+    }
+    if (spec.type === "int") {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 1) {
+        throw new UsageError(
+          `${name} must be a positive integer, got "${value}"`
+        );
+      }
+      (flags[spec.key] as number) = n;
+    } else if (spec.choices && !spec.choices.includes(value)) {
+      throw new UsageError(
+        `${name} must be one of ${spec.choices.join(
+          ", "
+        )}, got "${value}"`
+      );
+    } else {
+      (flags[spec.key] as string) = value;
+    }
+  }
+
+  // Legacy form: the first word is the candidate ID unless it is a command
+  let legacyCandidate: string | undefined;
+  if (
+    positionals.length &&
+    !isCommand(positionals[0]) &&
+    !flags.candidateId &&
+    (!env.CANDIDATE_ID || isCommand(positionals[1]))
+  ) {
+    legacyCandidate = positionals.shift();
+  }
+
+  const word = positionals.shift()?.toLowerCase() ?? "build";
+  if (!isCommand(word)) {
+    throw new UsageError(`Unknown command "${word}"`);
+  }
+
+  for (const name of given) {
+    const { commands } = FLAGS[name];
+    if (commands && !commands.includes(word)) {
+      throw new UsageError(
+        `${name} does not apply to ${word} (only ${commands.join(
+          ", "
+        )})`
+      );
+    }
+  }
+
+  const [min, max] = OPERANDS[word];
+  if (positionals.length < min || positionals.length > max) {
+    throw new UsageError(
+      `${word} takes ${
+        min === max ? min : `${min} to ${max}`
+      } argument(s), got ${positionals.length}`
+    );
+  }
+
+  const candidateId =
+    flags.candidateId ?? legacyCandidate ?? env.CANDIDATE_ID;
+  if (!candidateId && !OFFLINE.includes(word)) {
+    throw new UsageError("Please provide your candidate ID");
+  }
+
+  return {
+    ...flags,
+    command: word,
+    operands: positionals,
+    candidateId,
+    dryRun: flags.dryRun ?? false,
+    json: flags.json ?? false,
+  };
+}
+
+/**
+ * Help text listing every command and flag
+ */
+export function usage(): string {
+  const pad = (s: string, n: number) => s.padEnd(n);
+  return [
+    "Usage: node dist/index.js <command> [args] [options]",
+    "       node dist/index.js <candidate-id> [command] [args] [options]",
+    "",
+    "Commands:",
+    ...Object.entries(COMMANDS).map(
+      ([name, help]) => `  ${pad(name, 14)}${help}`
+    ),
+    "",
+    "Options:",
+    ...Object.entries(FLAGS).map(
+      ([name, spec]) =>
+        `  ${pad(
+          spec.type === "boolean" ? name : `${name} <value>`,
+          24
+        )}${spec.help}`
+    ),
+    `  ${pad("-h, --help", 24)}Show this help`,
+    "",
+    "Exit codes: 0 success, 1 error, 2 usage or config error, 3 partial failure,",
+    "            130 interrupted (Ctrl+C; press twice to quit at once)",
+  ].join("\n");
+}
@@ -0,0 +1,347 @@
+// src/config/loadConfig.ts
+
+import { existsSync, readFileSync } from "fs";
+
+/* -------------------------------------------------------------------------- */
+/*  Tuning knobs                                                              */
+/* -------------------------------------------------------------------------- */
+export interface ConcurrencyConfig {
+  initial: number; // Parallel requests to start with
+  max: number; // Ceiling for the adaptive concurrency
+  adjustIntervalMs: number; // How often concurrency is re-evaluated
+}
+
+export interface BatchConfig {
+  size: number; // Operations per batch
+  delayMs: number; // Pause between batches
+}
+
+export interface RateLimitConfig {
+  burst: number; // Token-bucket size: requests allowed back to back
+  requestsPerSecond: number; // Sustained rate to start the run with
+  minRequestsPerSecond: number; // Floor for the adaptive rate
+  maxRequestsPerSecond: number; // Ceiling for the adaptive rate
+  increaseStep: number; // Req/s added after every quiet period
+  decreaseFactor: number; // Rate multiplier on congestion (0–1)
+  quietPeriodMs: number; // Congestion-free time before speeding up
+  latencyTargetMs: number; // p95 latency that counts as congestion (0 = off)
+}
+
+export interface RetryConfig {
+  retries: number; // Attempts after the first one
+  factor: number; // Backoff multiplier
+  minTimeoutMs: number; // First retry delay
+  maxTimeoutMs: number; // Longest delay between retries
+}
+
+export interface RequestConfig {
+  timeoutMs: number; // Abort an API request slower than this (0 = never)
+}
+
+export interface StateConfig {
+  reconcileIntervalMs: number; // Re-read the live map once the cached copy is older (0 = every read)
+}
+
+export interface MegaverseConfig {
+  concurrency: ConcurrencyConfig;
+  batch: BatchConfig;
+  rateLimit: RateLimitConfig;
+  retry: RetryConfig;
+  request: RequestConfig;
+  state: StateConfig;
+}
+
+/** any subset of the config, as found in a file or on the command line */
+export type PartialConfig = {
+  [K in keyof MegaverseConfig]?: Partial<MegaverseConfig[K]>;
+};
+
+export const DEFAULT_CONFIG: MegaverseConfig = {
+  concurrency: { initial: 3, max: 8, adjustIntervalMs: 10_000 },
+  batch: { size: 20, delayMs: 3_000 },
+  rateLimit: {
+    burst: 6,
+    requestsPerSecond: 1.5,
+    minRequestsPerSecond: 0.2,
+    maxRequestsPerSecond: 5,
+    increaseStep: 0.25,
+    decreaseFactor: 0.5,
+    quietPeriodMs: 5_000,
+    latencyTargetMs: 0,
+  },
+  retry: {
+    retries: 8,
+    factor: 2,
+    minTimeoutMs: 1_000,
+    maxTimeoutMs: 60_000,
+  },
+  request: { timeoutMs: 30_000 },
+  state: { reconcileIntervalMs: 60_000 },
+};
+
+export const DEFAULT_CONFIG_FILE = "megaverse.config.json";
+
+/** how each knob is validated and which env var sets it */
+interface Setting {
+  env: string;
+  min: number; // Inclusive lower bound
+  max?: number; // Inclusive upper bound
+  integer: boolean;
+}
+
+const SETTINGS: {
+  [K in keyof MegaverseConfig]: Record<
+    keyof MegaverseConfig[K],
+    Setting
+  >;
+} = {
+  concurrency: {
+    initial: { env: "MEGAVERSE_CONCURRENCY", min: 1, integer: true },
+    max: { env: "MEGAVERSE_MAX_CONCURRENCY", min: 1, integer: true },
+    adjustIntervalMs: {
+      env: "MEGAVERSE_ADJUST_INTERVAL_MS",
+      min: 1,
+      integer: true,
+    },
+  },
+  batch: {
+    size: { env: "MEGAVERSE_BATCH_SIZE", min: 1, integer: true },
+    delayMs: {
+      env: "MEGAVERSE_BATCH_DELAY_MS",
+      min: 0,
+      integer: true,
+    },
+  },
+  rateLimit: {
+    burst: { env: "MEGAVERSE_RATE_BURST", min: 1, integer: true },
+    requestsPerSecond: {
+      env: "MEGAVERSE_RATE_PER_SECOND",
+      min: 0.01,
+      integer: false,
+    },
+    minRequestsPerSecond: {
+      env: "MEGAVERSE_RATE_MIN_PER_SECOND",
+      min: 0.01,
+      integer: false,
+    },
+    maxRequestsPerSecond: {
+      env: "MEGAVERSE_RATE_MAX_PER_SECOND",
+      min: 0.01,
+      integer: false,
+    },
+    increaseStep: {
+      env: "MEGAVERSE_RATE_INCREASE",
+      min: 0,
+      integer: false,
+    },
+    decreaseFactor: {
+      env: "MEGAVERSE_RATE_DECREASE",
+      min: 0.01,
+      max: 1,
+      integer: false,
+    },
+    quietPeriodMs: {
+      env: "MEGAVERSE_RATE_QUIET_MS",
+      min: 0,
+      integer: true,
+    },
+    latencyTargetMs: {
+      env: "MEGAVERSE_LATENCY_TARGET_MS",
+      min: 0,
+      integer: true,
+    },
+  },
+  retry: {
+    retries: { env: "MEGAVERSE_RETRIES", min: 0, integer: true },
+    factor: { env: "MEGAVERSE_RETRY_FACTOR", min: 1, integer: false },
+    minTimeoutMs: {
+      env: "MEGAVERSE_RETRY_MIN_MS",
+      min: 0,
+      integer: true,
+    },
+    maxTimeoutMs: {
+      env: "MEGAVERSE_RETRY_MAX_MS",
+      min: 0,
+      integer: true,
+    },
+  },
+  request: {
+    timeoutMs: {
+      env: "MEGAVERSE_REQUEST_TIMEOUT_MS",
+      min: 0,
+      integer: true,
+    },
+  },
+  state: {
+    reconcileIntervalMs: {
+      env: "MEGAVERSE_RECONCILE_INTERVAL_MS",
+      min: 0,
+      integer: true,
+    },
+  },
+};
+
+/**
+ * Raised when the config file, env vars or flags hold an invalid value;
+ * every problem found is listed, one per line.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n  ${problems.join("\n  ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Loading                                                                   */
+/* -------------------------------------------------------------------------- */
+export interface LoadConfigOptions {
+  file?: string; // Explicit config file; must exist
+  env?: NodeJS.ProcessEnv;
+  overrides?: PartialConfig; // CLI flags, highest precedence
+}
+
+/**
+ * Resolve the config from defaults < config file < env vars <
+ * `overrides`. Without an explicit `file`, `megaverse.config.json` in
+ * the working directory is used when present.
+ */
+export function loadConfig({
+  file,
+  env = process.env,
+  overrides = {},
+}: LoadConfigOptions = {}): MegaverseConfig {
+  const problems: string[] = [];
+  const config = structuredClone(DEFAULT_CONFIG);
+
+  const path = file ?? DEFAULT_CONFIG_FILE;
+  if (file || existsSync(path)) {
+    apply(config, readConfigFile(path, problems), path, problems);
+  }
+  applyEnv(config, env, problems);
+  apply(config, overrides, "flags", problems);
+
+  if (config.concurrency.max < config.concurrency.initial) {
+    problems.push(
+      `concurrency.max (${config.concurrency.max}) is below concurrency.initial (${config.concurrency.initial})`
+    );
+  }
+  const rate = config.rateLimit;
+  if (
+    rate.requestsPerSecond < rate.minRequestsPerSecond ||
+    rate.requestsPerSecond > rate.maxRequestsPerSecond
+  ) {
+    problems.push(
+      `rateLimit.requestsPerSecond (${rate.requestsPerSecond}) is outside [${rate.minRequestsPerSecond}, ${rate.maxRequestsPerSecond}]`
+    );
+  }
+  if (config.retry.maxTimeoutMs < config.retry.minTimeoutMs) {
+    problems.push(
+      `retry.maxTimeoutMs (${config.retry.maxTimeoutMs}) is below retry.minTimeoutMs (${config.retry.minTimeoutMs})`
+    );
+  }
+
+  if (problems.length) throw new ConfigError(problems);
+  return config;
+}
+
+function readConfigFile(path: string, problems: string[]): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    problems.push(`${path}: ${(err as Error).message}`);
+    return {};
+  }
+}
+
+/** copy every env var that is set over `config` */
+function applyEnv(
+  config: MegaverseConfig,
+  env: NodeJS.ProcessEnv,
+  problems: string[]
+): void {
+  for (const [section, settings] of Object.entries(SETTINGS)) {
+    for (const [key, setting] of Object.entries(settings)) {
+      const raw = env[setting.env];
+      if (raw === undefined || raw === "") continue;
+
+      const value = Number(raw);
+      if (Number.isNaN(value)) {
+        problems.push(
+          `${setting.env}: must be a number, got "${raw}"`
+        );
+        continue;
+      }
+      apply(
+        config,
+        { [section]: { [key]: value } },
+        setting.env,
+        problems
+      );
+    }
+  }
+}
+
+/** validate one layer and copy its values over `config` */
+function apply(
+  config: MegaverseConfig,
+  layer: unknown,
+  source: string,
+  problems: string[]
+): void {
+  if (!isObject(layer)) {
+    problems.push(`${source}: expected an object`);
+    return;
+  }
+
+  for (const [section, values] of Object.entries(layer)) {
+    if (!Object.hasOwn(SETTINGS, section)) {
+      problems.push(`${source}: unknown section "${section}"`);
+      continue;
+    }
+    if (!isObject(values)) {
+      problems.push(`${source}: ${section} must be an object`);
+      continue;
+    }
+
+    const settings: Record<string, Setting> =
+      SETTINGS[section as keyof MegaverseConfig];
+    const valid: Record<string, number> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) continue;
+
+      const setting = settings[key];
+      const name = `${section}.${key}`;
+      if (!setting) {
+        problems.push(`${source}: unknown setting "${name}"`);
+      } else if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        (setting.integer && !Number.isInteger(value)) ||
+        value < setting.min ||
+        value > (setting.max ?? Infinity)
+      ) {
+        const range =
+          setting.max === undefined
+            ? `≥ ${setting.min}`
+            : `between ${setting.min} and ${setting.max}`;
+        problems.push(
+          `${source}: ${name} must be ${
+            setting.integer ? "an integer" : "a number"
+          } ${range}, got ${JSON.stringify(value)}`
+        );
+      } else {
+        valid[key] = value;
+      }
+    }
+    Object.assign(config[section as keyof MegaverseConfig], valid);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value)
+  );
+}
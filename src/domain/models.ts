@@ -1,51 +1,288 @@
-export type SoloonColor = "blue" | "red" | "purple" | "white";
-export type ComethDirection = "up" | "down" | "left" | "right";
-export type Cell =
-  | "POLYANET"
-  | "UP_COMETH"
-  | "DOWN_COMETH"
-  | "LEFT_COMETH"
-  | "RIGHT_COMETH"
-  | "WHITE_SOLOON"
-  | "BLUE_SOLOON"
-  | "RED_SOLOON"
-  | "PURPLE_SOLOON";
+export const SOLOON_COLORS = [
+  "blue",
+  "red",
+  "purple",
+  "white",
+] as const;
+export const COMETH_DIRECTIONS = [
+  "up",
+  "down",
+  "left",
+  "right",
+] as const;
+
+export type SoloonColor = (typeof SOLOON_COLORS)[number];
+export type ComethDirection = (typeof COMETH_DIRECTIONS)[number];
+
+/* -------------------------------------------------------------------------- */
+/*  Body registry                                                             */
+/* -------------------------------------------------------------------------- */
+
+/** where a body may be placed; checked on goal maps, plans and the mock */
+export interface PlacementRule {
+  name: string; // Reported as the violation's `rule`
+  message: string; // Follows the token: "RED_SOLOON has no adjacent POLYANET"
+  /** `tokenAt` gives the goal token at a cell (undefined off the map) */
+  allows(
+    tokenAt: (row: number, column: number) => string | undefined,
+    row: number,
+    column: number
+  ): boolean;
+}
+
+/** one glyph per body, or one per value of its attribute */
+type Glyph = string | Readonly<Record<string, string>>;
+
+/** everything the client, builder and validators know about one body */
+export interface BodyType {
+  kind: string; // `Body.kind`, e.g. "soloon"
+  code: number; // `type` of its cells in the current map
+  resource: string; // API path it is created (POST) and removed (DELETE) at
+  token: string; // Goal token, or its suffix: RED_SOLOON for "SOLOON"
+  attribute?: { name: string; values: readonly string[] }; // Payload field
+  /** letter in ASCII map files; one per attribute value if it has one */
+  ascii: Glyph;
+  emoji: Glyph; // Drawn by `show` on a terminal, same shape as `ascii`
+  rule?: PlacementRule; // Bodies with a rule are placed after the rest
+}
+
+const NEXT_TO_POLYANET = {
+  name: "soloon-next-to-polyanet",
+  message: "has no adjacent POLYANET",
+  allows: (tokenAt, row, column) => {
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if (
+          (dr || dc) &&
+          tokenAt(row + dr, column + dc) === "POLYANET"
+        )
+          return true;
+      }
+    }
+    return false;
+  },
+} as const satisfies PlacementRule;
+
+/**
+ * Every kind of object the universe can hold. Adding one is a single
+ * entry here: goal tokens, map cells, API calls, the mock server and
+ * validation are all driven from it, and the `Body`, `Cell` and
+ * `CurrentCell` types below follow along.
+ */
+export const BODY_TYPES = [
+  {
+    kind: "polyanet",
+    code: 0,
+    resource: "polyanets",
+    token: "POLYANET",
+    ascii: "P",
+    emoji: "🪐",
+  },
+  {
+    kind: "soloon",
+    code: 1,
+    resource: "soloons",
+    token: "SOLOON",
+    attribute: { name: "color", values: SOLOON_COLORS },
+    ascii: { red: "r", blue: "b", purple: "p", white: "w" },
+    emoji: { red: "🔴", blue: "🔵", purple: "🟣", white: "⚪" },
+    rule: NEXT_TO_POLYANET,
+  },
+  {
+    kind: "cometh",
+    code: 2,
+    resource: "comeths",
+    token: "COMETH",
+    attribute: { name: "direction", values: COMETH_DIRECTIONS },
+    ascii: { up: "^", down: "v", left: "<", right: ">" },
+    emoji: { up: "⬆️ ", down: "⬇️ ", left: "⬅️ ", right: "➡️ " },
+  },
+] as const satisfies readonly BodyType[];
+
+type Registered = (typeof BODY_TYPES)[number];
+
+/** `{ color: "red" | … }` for a type with an attribute (else no fields) */
+type AttributeOf<T> = T extends {
+  attribute: {
+    name: infer N extends string;
+    values: readonly (infer V)[];
+  };
+}
+  ? { [P in N]: V }
+  : unknown;
+
+type TokenOf<T> = T extends {
+  token: infer S extends string;
+  attribute: { values: readonly (infer V extends string)[] };
+}
+  ? `${Uppercase<V>}_${S}`
+  : T extends { token: infer S extends string }
+  ? S
+  : never;
+
+/**
+ * An object in the universe, e.g. `{ kind: "soloon", color: "red" }`.
+ * Goal tokens and API cells are both converted to this.
+ */
+export type Body = Registered extends infer T
+  ? T extends Registered
+    ? { kind: T["kind"] } & AttributeOf<T>
+    : never
+  : never;
+
+export type BodyKind = Body["kind"];
+
+/** a cell as the API reports it, e.g. `{ type: 1, color: "red" }` */
+export type CurrentCell =
+  | null
+  | (Registered extends infer T
+      ? T extends Registered
+        ? { type: T["code"] } & AttributeOf<T>
+        : never
+      : never);
+
+/** a cell token that stands for an object, i.e. anything but SPACE */
+export type BodyCell = TokenOf<Registered>;
+
+export type Cell = BodyCell | "SPACE";
+
+export type PlacementRuleName = Registered extends infer T
+  ? T extends { rule: { name: infer N } }
+    ? N
+    : never
+  : never;
+
+/** every token a map cell can hold, in the goal-map spelling */
+export const CELLS: readonly Cell[] = [
+  ...BODY_TYPES.flatMap((type): string[] =>
+    "attribute" in type
+      ? type.attribute.values.map(
+          (value) => `${value.toUpperCase()}_${type.token}`
+        )
+      : [type.token]
+  ),
+  "SPACE",
+] as Cell[];
+
+export function isCell(token: string): token is Cell {
+  return (CELLS as readonly string[]).includes(token);
+}
+
+/** a cell's coordinates in a map */
+export interface Position {
+  row: number;
+  column: number;
+}
 
 export type GoalMap = Cell[][];
 export type CandidateMap = Cell[][];
 
-export abstract class AstralBody {
-  constructor(
-    public readonly row: number,
-    public readonly column: number
-  ) {}
-  abstract get type(): string;
+/* -------------------------------------------------------------------------- */
+/*  Conversions                                                               */
+/* -------------------------------------------------------------------------- */
+/** `BODY_TYPES`, widened for lookups by runtime values */
+export const REGISTRY: readonly BodyType[] = BODY_TYPES;
+
+/** the registry entry for a body kind */
+export function bodyType(kind: string): BodyType {
+  const type = REGISTRY.find((t) => t.kind === kind);
+  if (!type) throw new Error(`Unknown body kind "${kind}"`);
+  return type;
 }
 
-export class Polyanet extends AstralBody {
-  get type() {
-    return "POLYANET";
-  }
+/** registry entry for a map cell's numeric `type` */
+function typeOfCode(code: number): BodyType {
+  const type = REGISTRY.find((t) => t.code === code);
+  if (!type) throw new Error(`Unknown cell type ${code}`);
+  return type;
 }
 
-export class Cometh extends AstralBody {
-  constructor(
-    r: number,
-    c: number,
-    public readonly direction: string
-  ) {
-    super(r, c);
-  }
-  get type() {
-    return "COMETH";
-  }
+/** the body's attribute value ("red"), if its type has one */
+function attributeValue(body: Body): string | undefined {
+  const { attribute } = bodyType(body.kind);
+  return (
+    attribute && (body as Record<string, string>)[attribute.name]
+  );
 }
 
-export class Soloon extends AstralBody {
-  constructor(r: number, c: number, public readonly color: string) {
-    super(r, c);
-  }
-  get type() {
-    return "SOLOON";
+/** exhaustiveness check: only compiles when every case is handled */
+export function assertNever(value: never): never {
+  throw new Error(`Unexpected value: ${JSON.stringify(value)}`);
+}
+
+/** goal token → body (null for SPACE and unknown tokens) */
+export function bodyFromToken(token: BodyCell): Body;
+export function bodyFromToken(token: string): Body | null;
+export function bodyFromToken(token: string): Body | null {
+  for (const type of REGISTRY) {
+    if (!type.attribute) {
+      if (token === type.token) return { kind: type.kind } as Body;
+      continue;
+    }
+    const suffix = `_${type.token}`;
+    if (!token.endsWith(suffix)) continue;
+    const value = token.slice(0, -suffix.length).toLowerCase();
+    if (type.attribute.values.includes(value)) {
+      return {
+        kind: type.kind,
+        [type.attribute.name]: value,
+      } as Body;
+    }
   }
+  return null;
+}
+
+/** body → goal token */
+export function bodyToToken(body: Body): BodyCell {
+  const { token } = bodyType(body.kind);
+  const value = attributeValue(body);
+  return (
+    value ? `${value.toUpperCase()}_${token}` : token
+  ) as BodyCell;
+}
+
+/** every body token with its `ascii` or `emoji` glyph */
+export function glyphs(
+  field: "ascii" | "emoji"
+): Array<[BodyCell, string]> {
+  return REGISTRY.flatMap(({ kind, attribute, [field]: glyph }) =>
+    typeof glyph === "string"
+      ? [[bodyToToken({ kind } as Body), glyph]]
+      : Object.entries(glyph).map(
+          ([value, g]): [BodyCell, string] => [
+            bodyToToken({ kind, [attribute!.name]: value } as Body),
+            g,
+          ]
+        )
+  );
+}
+
+/** API cell → body (null for an empty cell) */
+export function bodyFromCell(cell: CurrentCell): Body | null {
+  if (!cell) return null;
+  const { kind, attribute } = typeOfCode(cell.type);
+  if (!attribute) return { kind } as Body;
+  const value = (cell as Record<string, unknown>)[attribute.name];
+  return { kind, [attribute.name]: value } as Body;
+}
+
+/** body → the cell the API reports for it */
+export function bodyToCell(body: Body): NonNullable<CurrentCell> {
+  const { code, attribute } = bodyType(body.kind);
+  const cell = attribute
+    ? { type: code, [attribute.name]: attributeValue(body) }
+    : { type: code };
+  return cell as NonNullable<CurrentCell>;
+}
+
+/** fields a create request sends besides row and column */
+export function bodyPayload(body: Body): Record<string, string> {
+  const { attribute } = bodyType(body.kind);
+  return attribute ? { [attribute.name]: attributeValue(body)! } : {};
+}
+
+/** same object (or both empty) */
+export function sameBody(a: Body | null, b: Body | null): boolean {
+  if (!a || !b) return a === b;
+  return bodyToToken(a) === bodyToToken(b);
 }
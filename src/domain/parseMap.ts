@@ -0,0 +1,154 @@
+import { Cell, glyphs, isCell } from "./models";
+
+/** ASCII-art spelling of every cell token, from the body registry */
+export const ASCII_CELLS: Record<string, Cell> = Object.fromEntries([
+  [".", "SPACE"],
+  ...glyphs("ascii").map(([token, ch]) => [ch, token]),
+]);
+
+/**
+ * Raised when a map file cannot be read; `line`/`column` are 1-based
+ * positions in the source text.
+ */
+export class MapParseError extends Error {
+  constructor(
+    source: string,
+    public readonly line: number,
+    public readonly column: number,
+    detail: string
+  ) {
+    super(`${source}:${line}:${column}: ${detail}`);
+    this.name = "MapParseError";
+  }
+}
+
+/** 1-based line/column of a character offset */
+function locate(text: string, offset: number): [number, number] {
+  const before = text.slice(0, offset).split("\n");
+  return [before.length, before[before.length - 1].length + 1];
+}
+
+/**
+ * Parse a map written either as JSON (`string[][]` of goal tokens or an
+ * API-style `{ "goal": [...] }`) or as ASCII art, one row per line:
+ *
+ *   P polyanet   r/b/p/w soloon   ^ v < > cometh   . space
+ *
+ * Blank lines, whitespace between cells and `#` comment lines are
+ * ignored in ASCII art.
+ */
+export function parseMap(text: string, source = "map"): Cell[][] {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith("[") || trimmed.startsWith("{")
+    ? parseJsonMap(text, source)
+    : parseAsciiMap(text, source);
+}
+
+function parseJsonMap(text: string, source: string): Cell[][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const message = (err as Error).message;
+    const at = /position (\d+)/.exec(message);
+    const [line, column] = at ? locate(text, Number(at[1])) : [1, 1];
+    throw new MapParseError(source, line, column, message);
+  }
+
+  const map = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { goal?: unknown })?.goal;
+  if (
+    !Array.isArray(map) ||
+    !map.every(
+      (row: unknown) =>
+        Array.isArray(row) &&
+        row.every((token) => typeof token === "string")
+    )
+  ) {
+    throw new MapParseError(
+      source,
+      1,
+      1,
+      "is not a map: expected an array of rows of tokens"
+    );
+  }
+
+  // String literals that are not object keys, in document order: the
+  // n-th one is the n-th token, which lets errors point into the file.
+  const literals = [...text.matchAll(/"(?:[^"\\]|\\.)*"(\s*:)?/g)]
+    .filter((m) => !m[1])
+    .map((m) => m.index ?? 0);
+
+  let n = 0;
+  const width = map[0]?.length ?? 0;
+  return (map as string[][]).map((row, r) => {
+    if (row.length !== width) {
+      const [line, column] = locate(text, literals[n] ?? 0);
+      throw new MapParseError(
+        source,
+        line,
+        column,
+        `row ${r} has ${row.length} cells, expected ${width}`
+      );
+    }
+    return row.map((token) => {
+      const offset = literals[n++] ?? 0;
+      if (!isCell(token)) {
+        const [line, column] = locate(text, offset);
+        throw new MapParseError(
+          source,
+          line,
+          column,
+          `unknown token "${token}"`
+        );
+      }
+      return token;
+    });
+  });
+}
+
+function parseAsciiMap(text: string, source: string): Cell[][] {
+  const map: Cell[][] = [];
+  let width: number | undefined;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim() || raw.trimStart().startsWith("#")) return;
+
+    const row: Cell[] = [];
+    for (let c = 0; c < raw.length; c++) {
+      const ch = raw[c];
+      if (ch === " " || ch === "\t") continue;
+
+      const cell = ASCII_CELLS[ch];
+      if (!cell) {
+        throw new MapParseError(
+          source,
+          line,
+          c + 1,
+          `unknown cell "${ch}" (expected one of ${Object.keys(
+            ASCII_CELLS
+          ).join(" ")})`
+        );
+      }
+      row.push(cell);
+    }
+
+    width ??= row.length;
+    if (row.length !== width) {
+      throw new MapParseError(
+        source,
+        line,
+        raw.trimEnd().length + 1,
+        `row has ${row.length} cells, expected ${width}`
+      );
+    }
+    map.push(row);
+  });
+
+  if (!map.length) {
+    throw new MapParseError(source, 1, 1, "map is empty");
+  }
+  return map;
+}
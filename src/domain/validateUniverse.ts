@@ -0,0 +1,141 @@
+import {
+  BODY_TYPES,
+  bodyFromToken,
+  bodyType,
+  Cell,
+  isCell,
+  PlacementRuleName,
+} from "./models";
+
+export type UniverseRule =
+  | "known-token"
+  | "rectangular-grid"
+  | "in-bounds"
+  | PlacementRuleName;
+
+/** names of the rules registered body types bring along */
+const PLACEMENT_RULES: ReadonlySet<string> = new Set(
+  BODY_TYPES.flatMap((type) =>
+    "rule" in type ? [type.rule.name] : []
+  )
+);
+
+export interface RuleViolation {
+  rule: UniverseRule;
+  row: number;
+  column: number;
+  message: string;
+}
+
+/** the part of a planned operation the rules need to look at */
+export interface PlanStep {
+  kind: "create" | "delete" | "replace";
+  row: number;
+  column: number;
+  body: Cell;
+}
+
+/**
+ * Thrown before touching the universe when a map or plan breaks a rule
+ */
+export class UniverseValidationError extends Error {
+  constructor(
+    what: string,
+    public readonly violations: RuleViolation[]
+  ) {
+    super(
+      `${what} breaks ${violations.length} rule(s):\n` +
+        violations
+          .map(
+            (v) => `  [${v.row},${v.column}] ${v.rule}: ${v.message}`
+          )
+          .join("\n")
+    );
+    this.name = "UniverseValidationError";
+  }
+}
+
+/**
+ * Check a map's shape and tokens, and every body against the placement
+ * rule its type registers
+ */
+export function validateGoal(goal: Cell[][]): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const width = goal[0]?.length ?? 0;
+  const tokenAt = (row: number, column: number) =>
+    goal[row]?.[column];
+
+  goal.forEach((row, r) => {
+    if (row.length !== width) {
+      violations.push({
+        rule: "rectangular-grid",
+        row: r,
+        column: Math.min(row.length, width),
+        message: `row has ${row.length} cells, expected ${width}`,
+      });
+    }
+
+    row.forEach((token, c) => {
+      if (!isCell(token)) {
+        violations.push({
+          rule: "known-token",
+          row: r,
+          column: c,
+          message: `unknown token "${token}"`,
+        });
+      } else {
+        const body = bodyFromToken(token);
+        const rule = body && bodyType(body.kind).rule;
+        if (rule && !rule.allows(tokenAt, r, c)) {
+          violations.push({
+            rule: rule.name as PlacementRuleName,
+            row: r,
+            column: c,
+            message: `${token} ${rule.message}`,
+          });
+        }
+      }
+    });
+  });
+
+  return violations;
+}
+
+/**
+ * Check a plan against the map it will run on: every step must stay
+ * inside the grid and the resulting map must satisfy `validateGoal`.
+ */
+export function validatePlan(
+  steps: readonly PlanStep[],
+  before: Cell[][]
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const after = before.map((row) => [...row]);
+
+  for (const { kind, row, column, body } of steps) {
+    if (
+      !Number.isInteger(row) ||
+      !Number.isInteger(column) ||
+      row < 0 ||
+      row >= before.length ||
+      column < 0 ||
+      column >= before[row].length
+    ) {
+      violations.push({
+        rule: "in-bounds",
+        row,
+        column,
+        message: `${kind} ${body} is outside the ${before.length}×${
+          before[0]?.length ?? 0
+        } grid`,
+      });
+      continue;
+    }
+    after[row][column] = kind === "delete" ? "SPACE" : body;
+  }
+
+  return [
+    ...violations,
+    ...validateGoal(after).filter((v) => PLACEMENT_RULES.has(v.rule)),
+  ];
+}
@@ -1,61 +1,391 @@
 import { MegaverseApiClient } from "./api/MegaverseApiClient";
-import { MegaverseBuilder } from "./orchestrator/MegaverseBuilder";
+import {
+  MegaverseBuilder,
+  RunResult,
+} from "./orchestrator/MegaverseBuilder";
+import { BuildJournal } from "./orchestrator/BuildJournal";
+import {
+  printPlan,
+  readPlanFile,
+  summarizePlan,
+} from "./utils/planReport";
+import {
+  MockMegaverseServer,
+  crossGoal,
+} from "./mock/MockMegaverseServer";
+import { readMapFile, writeMapFile } from "./utils/mapFile";
+import {
+  currentToTokens,
+  isFancyOutput,
+  renderDiff,
+  renderMap,
+} from "./utils/renderMap";
+import {
+  CliOptions,
+  EXIT,
+  UsageError,
+  parseArgs,
+  usage,
+} from "./cli/args";
+import { planReconciliation } from "./orchestrator/planReconciliation";
+import {
+  ConfigError,
+  MegaverseConfig,
+  loadConfig,
+} from "./config/loadConfig";
+import { RateLimiter } from "./utils/rateLimiter";
+import { createSystemClock } from "./utils/clock";
+import { createLogger } from "./utils/logger";
+import { printReport } from "./utils/runReport";
+import { LiveProgress } from "./utils/liveProgress";
+import { writeFileSync } from "fs";
 
-export async function main(): Promise<void> {
-  // Get candidate ID from environment or command line
-  const candidateId =
-    process.env.CANDIDATE_ID ??
-    (process.argv[2] ? process.argv[2] : "YOUR_CANDIDATE_ID_HERE");
+export async function main(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<void> {
+  let opts: CliOptions;
+  try {
+    opts = parseArgs(argv, env);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`⚠ ${error.message}`);
+    console.error(usage());
+    process.exit(EXIT.USAGE);
+  }
 
-  if (candidateId === "YOUR_CANDIDATE_ID_HERE") {
-    console.error("⚠ Please provide your candidate ID:");
-    console.error(
-      "- As environment variable: CANDIDATE_ID=your-id npm start"
-    );
-    console.error(
-      "- Or as argument: node dist/index.js your-id [build|clean]"
-    );
-    process.exit(1);
+  if (opts.command === "help") {
+    console.log(usage());
+    return;
+  }
+  if (opts.command === "mock-server") {
+    await serveMock(opts.operands);
+    return;
   }
 
-  console.log(`🔑 Using candidate ID: ${candidateId}`);
+  // With --json, stdout is reserved for the machine-readable result
+  const logger = createLogger({
+    format: opts.logFormat,
+    level: opts.logLevel,
+    stderr: opts.json,
+  });
+
+  // Tuning: config file < env vars < flags
+  let config: MegaverseConfig;
+  try {
+    config = loadConfig({
+      file: opts.config,
+      env,
+      overrides: {
+        concurrency: {
+          initial: opts.concurrency,
+          max: opts.maxConcurrency,
+        },
+        batch: { size: opts.batchSize },
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    logger.error(`⚠ ${error.message}`, { problems: error.problems });
+    process.exit(EXIT.USAGE);
+  }
+
+  const candidateId = opts.candidateId!;
+  logger.info(`🔑 Using candidate ID: ${candidateId}`, {
+    candidateId,
+  });
 
-  // Create API client and builder
-  const client = new MegaverseApiClient(candidateId);
-  const builder = new MegaverseBuilder(client);
+  // Every run is seeded so a flaky one can be replayed with --seed
+  const seed = opts.seed ?? 1 + Math.floor(Math.random() * 2 ** 31);
+  const clock = createSystemClock(seed);
+  logger.info(`🎲 Seed: ${seed}`, { seed });
 
-  // Determine what action to perform (build or clean)
-  const action = process.argv[3]?.toLowerCase() || "build";
-  console.log(`🚀 Action: ${action}`);
+  // One updating progress line on a terminal, periodic lines otherwise
+  const progress = new LiveProgress({
+    logger,
+    clock,
+    live: opts.logFormat !== "json" && Boolean(process.stderr.isTTY),
+  });
+
+  // Ctrl+C drains: nothing new is sent, requests in flight finish
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) {
+      progress.logger.error("🛑 Interrupted again, quitting now.");
+      process.exit(EXIT.INTERRUPTED);
+    }
+    progress.logger.warn(
+      "✋ Stopping once requests in flight finish (Ctrl+C again to quit now)…"
+    );
+    controller.abort();
+  };
+  process.on("SIGINT", onInterrupt);
+
+  // Create API client and builder; one limiter paces the whole run
+  const rate = config.rateLimit;
+  const limiter = new RateLimiter(
+    rate.burst,
+    rate.requestsPerSecond,
+    {
+      min: rate.minRequestsPerSecond,
+      max: rate.maxRequestsPerSecond,
+      increase: rate.increaseStep,
+      decrease: rate.decreaseFactor,
+      quietPeriodMs: rate.quietPeriodMs,
+      latencyTargetMs: rate.latencyTargetMs,
+      clock,
+      logger: progress.logger,
+    }
+  );
+  const client = new MegaverseApiClient(candidateId, {
+    baseUrl: env.MEGAVERSE_BASE_URL,
+    timeoutMs: config.request.timeoutMs,
+    limiter,
+    signal: controller.signal,
+    unknownTokens: opts.unknownTokens,
+    logger: progress.logger,
+  });
+  const journal = new BuildJournal(
+    env.MEGAVERSE_JOURNAL ?? ".megaverse-journal.jsonl"
+  );
+  const builder = new MegaverseBuilder(client, {
+    journal,
+    limiter,
+    config,
+    clock,
+    logger: progress.logger,
+    onEvent: progress.handle,
+    signal: controller.signal,
+  });
+
+  /** print the run report of build/clean/resume, save it if asked */
+  const finishReport = () => {
+    const report = builder.report();
+    if (!report) return;
+    printReport(report, logger);
+    if (opts.report) {
+      writeFileSync(opts.report, JSON.stringify(report, null, 2));
+      logger.info(`💾 Report saved to ${opts.report}`);
+    }
+  };
+
+  const { command, operands } = opts;
+  let partial = 0; // Cells left wrong by the run, reported after cleanup
+  let unknown = 0; // Cells the run left alone (--unknown-tokens skip)
+  let left: number | undefined; // Operations an interrupt left undone
+  logger.info(
+    `🚀 Action: ${command}${opts.dryRun ? " (dry run)" : ""}`,
+    { command, dryRun: opts.dryRun }
+  );
 
   try {
-    switch (action) {
+    // Custom target map instead of the API goal (build / plan / show)
+    const target = opts.target ? readMapFile(opts.target) : undefined;
+    if (opts.target) logger.info(`🎯 Target map: ${opts.target}`);
+
+    /** print (and optionally save) a plan instead of running it */
+    const showPlan = async (
+      toward?: string[][],
+      outFile?: string
+    ) => {
+      const plan = await builder.planUniverse(toward);
+      const saved = {
+        candidateId,
+        createdAt: new Date().toISOString(),
+        summary: summarizePlan(plan),
+        changes: plan,
+      };
+      if (opts.json) console.log(JSON.stringify(saved, null, 2));
+      else printPlan(plan);
+
+      if (outFile) {
+        writeFileSync(outFile, JSON.stringify(saved, null, 2));
+        logger.info(`💾 Plan saved to ${outFile}`);
+      }
+    };
+
+    let result: RunResult | undefined;
+    switch (command) {
       case "clean":
-        console.log("🧹 Cleaning universe...");
-        await builder.cleanUniverse();
+        if (opts.dryRun) {
+          const empty = (await builder.snapshotUniverse()).map(
+            (row) => row.map(() => "SPACE")
+          );
+          await showPlan(empty);
+          break;
+        }
+        logger.info("🧹 Cleaning universe...");
+        result = await builder.cleanUniverse();
+        break;
+
+      case "resume":
+        logger.info(`⏯️ Resuming build from ${journal.file}...`);
+        result = await builder.resumeBuild();
         break;
 
+      case "show": {
+        const view = operands[0]?.toLowerCase() ?? "diff";
+        const fancy = !opts.json && isFancyOutput();
+        // Through the builder's state, so reads are retried
+        const goal = () => target ?? builder.state.goal();
+
+        if (view === "goal") {
+          const map = await goal();
+          console.log(
+            opts.json
+              ? JSON.stringify(map)
+              : renderMap(map, { fancy })
+          );
+        } else if (view === "current") {
+          const map = currentToTokens(
+            await builder.state.reconcile()
+          );
+          console.log(
+            opts.json
+              ? JSON.stringify(map)
+              : renderMap(map, { fancy })
+          );
+        } else if (view === "diff") {
+          const [g, current] = await Promise.all([
+            goal(),
+            builder.state.reconcile(),
+          ]);
+          console.log(
+            opts.json
+              ? JSON.stringify({
+                  goal: g,
+                  current: currentToTokens(current),
+                  changes: planReconciliation(g, current),
+                })
+              : renderDiff(g, current, { fancy })
+          );
+        } else {
+          throw new UsageError(
+            `Unknown view "${view}" (expected goal, current or diff)`
+          );
+        }
+        break;
+      }
+
+      case "snapshot": {
+        const file = operands[0] ?? "megaverse-snapshot.json";
+        writeMapFile(file, await builder.snapshotUniverse());
+        logger.info(`📸 Current universe saved to ${file}`);
+        break;
+      }
+
+      case "restore": {
+        const saved = readMapFile(operands[0]);
+        if (opts.dryRun) {
+          await showPlan(saved);
+          break;
+        }
+        logger.info(`⏪ Restoring universe from ${operands[0]}...`);
+        result = await builder.restoreUniverse(saved);
+        break;
+      }
+
+      case "plan":
+        logger.info("📋 Planning changes (dry run)...");
+        await showPlan(target, operands[0]);
+        break;
+
+      case "apply": {
+        const changes = readPlanFile(operands[0]);
+        logger.info(
+          `📋 Applying ${changes.length} planned changes from ${operands[0]}...`
+        );
+        result = await builder.applyPlan(changes);
+        break;
+      }
+
       case "build":
-      default:
-        console.log("🔨 Building Crossmint logo universe...");
-        await builder.buildUniverse();
+        if (opts.dryRun) {
+          await showPlan(target);
+          break;
+        }
+        logger.info("🔨 Building Crossmint logo universe...");
+        result = await builder.buildUniverse(target);
         break;
     }
 
-    console.log("✅ Done!");
+    finishReport();
+    if (controller.signal.aborted) {
+      left = result?.wrongCells.length ?? 0;
+    } else if (result && !result.ok) {
+      partial = result.wrongCells.length;
+      unknown = result.skipped.length;
+    } else {
+      logger.info("✅ Done!");
+    }
   } catch (error) {
-    console.error("💥 Error:", (error as Error).message);
-    process.exit(1);
+    if (error instanceof UsageError) {
+      logger.error(`⚠ ${error.message}`);
+      process.exit(EXIT.USAGE);
+    }
+    finishReport(); // What happened before the failure is still useful
+    if (controller.signal.aborted) {
+      logger.warn("✋ Interrupted.");
+      process.exit(EXIT.INTERRUPTED);
+    }
+    logger.error(`💥 Error: ${(error as Error).message}`, { error });
+    process.exit(EXIT.FAILURE);
   } finally {
     // Always clean up by stopping the concurrency timer
     builder.stopAdjusting();
+    process.off("SIGINT", onInterrupt);
+  }
+
+  if (left !== undefined) {
+    logger.warn(`✋ Interrupted with ${left} operations left to do.`);
+    process.exit(EXIT.INTERRUPTED);
+  }
+
+  if (partial || unknown) {
+    const alone = unknown
+      ? ` and ${unknown} unknown cells left alone`
+      : "";
+    logger.error(
+      `⚠ Finished with ${partial} cells still wrong${alone}`
+    );
+    process.exit(EXIT.PARTIAL);
+  }
+}
+
+/** offline stand-in: serve a goal map until Ctrl+C */
+async function serveMock(operands: string[]): Promise<void> {
+  const port = Number(operands[0] ?? 8080);
+  if (!Number.isInteger(port) || port < 0) {
+    console.error(`⚠ Invalid port "${operands[0]}"`);
+    process.exit(EXIT.USAGE);
+  }
+
+  const goalFile = operands[1];
+  const server = new MockMegaverseServer({
+    goal: goalFile ? readMapFile(goalFile) : crossGoal(),
+  });
+
+  let url: string;
+  try {
+    url = await server.listen(port);
+  } catch (error) {
+    console.error(
+      `💥 Could not listen on port ${port}: ${
+        (error as Error).message
+      }`
+    );
+    process.exit(EXIT.FAILURE);
   }
+  console.log(`🛰️ Mock Megaverse listening on ${url}`);
+  console.log(`   Point the client at it: MEGAVERSE_BASE_URL=${url}`);
+  await new Promise((resolve) => process.once("SIGINT", resolve));
+  await server.close();
 }
 
 // Run the main function if this file is executed directly
 if (require.main === module) {
   main().catch((err) => {
     console.error("Fatal error:", err);
-    process.exit(1);
+    process.exit(EXIT.FAILURE);
   });
 }
@@ -0,0 +1,301 @@
+// src/mock/MockMegaverseServer.ts
+
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { CurrentCell } from "../api/MegaverseApiClient";
+import {
+  bodyFromCell,
+  BodyType,
+  bodyToToken,
+  REGISTRY,
+} from "../domain/models";
+import { sleep } from "../utils/sleep";
+
+/* -------------------------------------------------------------------------- */
+/*  Models                                                                     */
+/* -------------------------------------------------------------------------- */
+export interface FailureOptions {
+  rateLimitRate?: number; // Probability of answering 429
+  retryAfterSeconds?: number; // Retry-After sent with every 429
+  serverErrorRate?: number; // Probability of answering a random 5xx
+  latencyMs?: number; // Delay added before every response
+  dropWriteRate?: number; // Probability of answering 200 without applying a write
+  methods?: string[]; // HTTP methods failures apply to (default: all)
+}
+
+export interface MockServerOptions {
+  goal: string[][]; // Goal map served at /map/:id/goal
+  current?: CurrentCell[][]; // Starting map (defaults to empty)
+  failures?: FailureOptions;
+  random?: () => number; // Source of randomness for failure injection
+  enforceRules?: boolean; // Reject bodies that break their placement rule
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body?: string;
+}
+
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Build an `size`×`size` goal with polyanets on both diagonals,
+ * leaving a margin of `margin` cells (the phase 1 "X" pattern)
+ */
+export function crossGoal(size = 11, margin = 2): string[][] {
+  return Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) =>
+      r >= margin &&
+      r < size - margin &&
+      (c === r || c === size - 1 - r)
+        ? "POLYANET"
+        : "SPACE"
+    )
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*  Mock server                                                                */
+/* -------------------------------------------------------------------------- */
+/**
+ * In-memory stand-in for the Megaverse API. Requests can be served over
+ * real HTTP (`listen`) or in-process through the fetch-compatible `fetch`.
+ */
+export class MockMegaverseServer {
+  readonly goal: string[][];
+  readonly grid: CurrentCell[][];
+  failures: FailureOptions;
+
+  /** every request received, in order (handy for assertions) */
+  readonly requests: MockRequest[] = [];
+
+  private readonly random: () => number;
+  private readonly enforceRules: boolean;
+  private server?: Server;
+
+  constructor(options: MockServerOptions) {
+    this.goal = options.goal;
+    this.grid =
+      options.current?.map((row) => [...row]) ??
+      options.goal.map((row) => row.map(() => null));
+    this.failures = options.failures ?? {};
+    this.random = options.random ?? Math.random;
+    this.enforceRules = options.enforceRules ?? false;
+  }
+
+  /* --- TRANSPORTS --- */
+
+  /** fetch-compatible entry point, no sockets involved */
+  fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL
+        ? input
+        : input.url
+    );
+    const res = await this.handle({
+      method: init?.method ?? "GET",
+      path: url.pathname,
+      body: typeof init?.body === "string" ? init.body : undefined,
+    });
+    return new Response(res.body, {
+      status: res.status,
+      headers: res.headers,
+    });
+  };
+
+  /**
+   * start an HTTP server, resolves with the API base URL; rejects if
+   * the port can't be bound (e.g. EADDRINUSE)
+   */
+  async listen(port = 0): Promise<string> {
+    const server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      const out = await this.handle({
+        method: req.method ?? "GET",
+        path: new URL(req.url ?? "/", "http://localhost").pathname,
+        body,
+      });
+      res.writeHead(out.status, out.headers);
+      res.end(out.body);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const { port: bound } = server.address() as AddressInfo;
+    return `http://localhost:${bound}/api`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) =>
+      server.close((err) => (err ? reject(err) : resolve()))
+    );
+  }
+
+  /* --- ROUTING --- */
+
+  async handle(req: MockRequest): Promise<MockResponse> {
+    this.requests.push(req);
+
+    const { latencyMs = 0 } = this.failures;
+    if (latencyMs > 0) await sleep(latencyMs);
+
+    const { methods } = this.failures;
+    if (!methods || methods.includes(req.method)) {
+      const injected = this.injectFailure();
+      if (injected) return injected;
+    }
+
+    const path = req.path.replace(/^\/api/, "");
+    const goalMatch = /^\/map\/([^/]+)\/goal$/.exec(path);
+    const mapMatch = /^\/map\/([^/]+)$/.exec(path);
+    const type = REGISTRY.find((t) => path === `/${t.resource}`);
+
+    if (req.method === "GET" && goalMatch) {
+      return json(200, { goal: this.goal });
+    }
+    if (req.method === "GET" && mapMatch) {
+      return json(200, {
+        map: { _id: mapMatch[1], content: this.grid },
+      });
+    }
+    if (type && (req.method === "POST" || req.method === "DELETE")) {
+      return this.write(req.method, type, req.body);
+    }
+    return json(404, { error: true, message: "Not found" });
+  }
+
+  /* --- HELPER METHODS --- */
+
+  private injectFailure(): MockResponse | undefined {
+    const {
+      rateLimitRate = 0,
+      retryAfterSeconds,
+      serverErrorRate = 0,
+    } = this.failures;
+
+    if (rateLimitRate > 0 && this.random() < rateLimitRate) {
+      const res = json(429, {
+        error: true,
+        message: "Too Many Requests",
+      });
+      if (retryAfterSeconds !== undefined) {
+        res.headers["Retry-After"] = String(retryAfterSeconds);
+      }
+      return res;
+    }
+    if (serverErrorRate > 0 && this.random() < serverErrorRate) {
+      const status = [500, 502, 503][Math.floor(this.random() * 3)];
+      return json(status, { error: true, message: "Server error" });
+    }
+    return undefined;
+  }
+
+  /** the goal-map token of what is at [row,column] now */
+  private tokenAt = (row: number, column: number) => {
+    const cell = this.grid[row]?.[column];
+    if (cell === undefined) return undefined;
+    const body = bodyFromCell(cell);
+    return body ? bodyToToken(body) : "SPACE";
+  };
+
+  private write(
+    method: "POST" | "DELETE",
+    type: BodyType,
+    rawBody?: string
+  ): MockResponse {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody ?? "{}");
+    } catch {
+      return json(400, { error: true, message: "Invalid JSON body" });
+    }
+
+    const { row, column } = payload;
+    if (
+      !Number.isInteger(row) ||
+      !Number.isInteger(column) ||
+      !this.grid[row as number] ||
+      (column as number) < 0 ||
+      (column as number) >= this.grid[row as number].length
+    ) {
+      return json(400, {
+        error: true,
+        message: `Invalid coordinates (${row}, ${column})`,
+      });
+    }
+    const r = row as number;
+    const c = column as number;
+
+    // DELETE only removes the kind of object the resource stands for
+    const existing = this.grid[r][c];
+    let cell: CurrentCell =
+      existing?.type === type.code ? null : existing;
+    if (method === "POST") {
+      const { attribute, rule } = type;
+      const value = attribute && payload[attribute.name];
+      if (attribute && !attribute.values.includes(value as string)) {
+        return json(400, {
+          error: true,
+          message: `Invalid ${attribute.name}`,
+        });
+      }
+      if (
+        this.enforceRules &&
+        rule &&
+        !rule.allows(this.tokenAt, r, c)
+      ) {
+        return json(400, {
+          error: true,
+          message: `${type.token} ${rule.message}`,
+        });
+      }
+      cell = (
+        attribute
+          ? { type: type.code, [attribute.name]: value }
+          : { type: type.code }
+      ) as CurrentCell;
+    }
+
+    const { dropWriteRate = 0 } = this.failures;
+    const dropped =
+      dropWriteRate > 0 && this.random() < dropWriteRate;
+    if (!dropped) this.grid[r][c] = cell;
+
+    return json(200, {});
+  }
+}
+
+function json(status: number, body: unknown): MockResponse {
+  return {
+    status,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
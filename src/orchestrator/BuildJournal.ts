@@ -0,0 +1,143 @@
+/* -------------------------------------------------------------------------- */
+/*  BuildJournal                                                              */
+/* -------------------------------------------------------------------------- */
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { Operation } from "./planReconciliation";
+
+export type JournalEvent =
+  | "planned"
+  | "attempted"
+  | "succeeded"
+  | "failed";
+
+export interface JournalEntry {
+  run: string; // Id of the build that wrote the entry
+  at: string; // ISO timestamp
+  event: JournalEvent;
+  op: Operation;
+  error?: string; // Only on "failed"
+}
+
+/** first line of a run: what it was building toward */
+export interface RunHeader {
+  run: string;
+  at: string; // ISO timestamp
+  event: "started";
+  target?: string[][]; // Map the run reconciles toward (API goal if absent)
+}
+
+type JournalLine = JournalEntry | RunHeader;
+
+/** identity of an operation inside a run */
+function keyOf(op: Operation): string {
+  return `${op.kind}:${op.row},${op.column}:${op.body}`;
+}
+
+/**
+ * Append-only JSON-lines log of every operation a build plans, attempts,
+ * completes or fails, so an interrupted build can be resumed.
+ */
+export class BuildJournal {
+  private run?: string;
+
+  constructor(readonly file: string) {}
+
+  /**
+   * begin a new run; later entries are grouped under it. `target` is
+   * the map it builds toward when that isn't the API goal (a restore
+   * or `--target`), so a resume finishes the same job.
+   */
+  startRun(target?: string[][]): string {
+    this.run = new Date().toISOString();
+    const header: RunHeader = {
+      run: this.run,
+      at: this.run,
+      event: "started",
+    };
+    if (target) header.target = target;
+    appendFileSync(this.file, JSON.stringify(header) + "\n");
+    return this.run;
+  }
+
+  /** keep appending to the latest run found on disk (if any) */
+  continueRun(): string | undefined {
+    this.run = this.lines().at(-1)?.run;
+    return this.run;
+  }
+
+  /** the map the latest run aims at; undefined means the API goal */
+  target(): string[][] | undefined {
+    const lines = this.lines();
+    const header = lines
+      .filter((line): line is RunHeader => line.event === "started")
+      .at(-1);
+    return header?.run === lines.at(-1)?.run
+      ? header?.target
+      : undefined;
+  }
+
+  record(event: JournalEvent, op: Operation, error?: unknown): void {
+    const entry: JournalEntry = {
+      run: this.run ?? this.startRun(),
+      at: new Date().toISOString(),
+      event,
+      op,
+    };
+    if (error !== undefined) {
+      entry.error = (error as Error)?.message ?? String(error);
+    }
+    appendFileSync(this.file, JSON.stringify(entry) + "\n");
+  }
+
+  /** every operation entry on disk (run headers left out) */
+  read(): JournalEntry[] {
+    return this.lines().filter(
+      (line): line is JournalEntry => line.event !== "started"
+    );
+  }
+
+  /** entries of the latest run */
+  latestRun(): JournalEntry[] {
+    const run = this.lines().at(-1)?.run;
+    return this.read().filter((e) => e.run === run);
+  }
+
+  /** every line on disk; a torn last line (crash mid-write) is ignored */
+  private lines(): JournalLine[] {
+    if (!existsSync(this.file)) return [];
+
+    const lines: JournalLine[] = [];
+    for (const line of readFileSync(this.file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        lines.push(JSON.parse(line));
+      } catch {
+        // partial line – the process died while writing it
+      }
+    }
+    return lines;
+  }
+
+  /** operations of the latest run whose last event is "succeeded" */
+  succeeded(): Operation[] {
+    return this.byLastEvent((event) => event === "succeeded");
+  }
+
+  /** operations of the latest run that never succeeded */
+  outstanding(): Operation[] {
+    return this.byLastEvent((event) => event !== "succeeded");
+  }
+
+  private byLastEvent(
+    keep: (event: JournalEvent) => boolean
+  ): Operation[] {
+    const last = new Map<string, JournalEntry>();
+    for (const entry of this.latestRun()) {
+      // Map keeps first-seen order, i.e. the order ops were planned
+      last.set(keyOf(entry.op), entry);
+    }
+    return [...last.values()]
+      .filter((entry) => keep(entry.event))
+      .map((entry) => entry.op);
+  }
+}
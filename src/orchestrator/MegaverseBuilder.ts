@@ -4,292 +4,932 @@
 import {
   IMegaverseApiClient,
   CurrentCell,
+  MapRead,
+  RateLimitedError,
+  isRetryable,
+  mayHaveApplied,
 } from "../api/MegaverseApiClient";
 import { runtWithConcurrencyLimit } from "../utils/concurrency";
 import { RetryOptions, retry } from "../utils/retry";
-import { createProgressLogger } from "../utils/progressLogger";
-import { sleep } from "../utils/sleep";
-import { ComethDirection, SoloonColor } from "../domain/models";
-
-/* ------------ helpers to avoid repetitive switch/case -------------------- */
-const SOLOON = ["red", "blue", "purple", "white"] as const;
-const COMETH = ["up", "down", "left", "right"] as const;
+import { Clock, systemClock } from "../utils/clock";
+import { Logger, defaultLogger } from "../utils/logger";
+import { RunMetrics, RunReport } from "../utils/runReport";
+import {
+  Cell,
+  Position,
+  assertNever,
+  bodyFromToken,
+  bodyType,
+} from "../domain/models";
+import {
+  UniverseValidationError,
+  validateGoal,
+  validatePlan,
+} from "../domain/validateUniverse";
+import {
+  Operation,
+  emptyGoalFor,
+  planReconciliation,
+  isApplied,
+  sortOperations,
+  splitStages,
+  toToken,
+} from "./planReconciliation";
+import { BuildJournal } from "./BuildJournal";
+import { UniverseState } from "./UniverseState";
+import { AimdController } from "../utils/aimdController";
+import { RateLimiter } from "../utils/rateLimiter";
+import {
+  DEFAULT_CONFIG,
+  MegaverseConfig,
+} from "../config/loadConfig";
+
+export interface MegaverseBuilderOptions {
+  journal?: BuildJournal; // Record build operations so they can be resumed
+  config?: MegaverseConfig; // Rate-limit, batching and retry tuning
+  clock?: Clock; // Timers, pauses and jitter (defaults to real time)
+  logger?: Logger; // Progress, retries and failures (defaults to console)
+  onEvent?: (event: BuilderEvent) => void; // Drives progress displays
+  signal?: AbortSignal; // Stop scheduling work; the run returns what's left
+  limiter?: RateLimiter; // The client's limiter: counts every request, reads included
+}
 
-type Soloons = (typeof SOLOON)[number];
-type Comeths = (typeof COMETH)[number];
+/** what a pass over a set of operations is doing, for progress output */
+export type PhaseLabel = "created" | "deleted" | "resumed" | "fixed";
 
-function isSoloonToken(
-  t: string
-): t is `${Uppercase<Soloons>}_SOLOON` {
-  return SOLOON.some((c) => t === `${c.toUpperCase()}_SOLOON`);
+/** what the builder is up to, as it happens */
+export type BuilderEvent =
+  | {
+      type: "phase-start";
+      label: PhaseLabel;
+      ops: Operation[];
+      concurrency: number;
+    }
+  | { type: "phase-end"; label: PhaseLabel }
+  | { type: "op-start"; op: Operation }
+  | { type: "op-end"; op: Operation; ok: boolean }
+  | { type: "retry"; op: Operation; attempt: number; delayMs: number }
+  | { type: "concurrency"; concurrency: number };
+
+/** an operation that failed, and why */
+export interface FailedOperation {
+  op: Operation;
+  error: string;
 }
-function isComethToken(
-  t: string
-): t is `${Uppercase<Comeths>}_COMETH` {
-  return COMETH.some((d) => t === `${d.toUpperCase()}_COMETH`);
+
+/** outcome of a build, restore, resume or clean */
+export interface RunResult {
+  ok: boolean; // Verification found nothing left to do
+  cancelled: boolean; // The signal stopped the run before the end
+  failed: FailedOperation[]; // Every failure on the way, even if fixed later
+  wrongCells: Operation[]; // Still wrong, or never done if cancelled
+  skipped: Position[]; // Unknown to the map reads, so left alone
 }
 
+/** fix-up sweeps after the main pass before giving up */
+const VERIFY_ATTEMPTS = 3;
+
 export class MegaverseBuilder {
   /* ----------------- rate-limit tuning & batching ----------------------- */
-  private concurrency = 3;
-  private readonly maxConcurrency = 8;
-  private readonly adjustIntervalMs = 10_000;
-  private readonly batchSize = 20;
-  private readonly batchDelayMs = 3_000;
-  private readonly RATE_LIMIT_MS = 1_700;
-
-  private error429 = 0;
-  private readonly adjustTimer: NodeJS.Timeout;
-
-  constructor(private readonly api: IMegaverseApiClient) {
-    this.adjustTimer = setInterval(
-      () => this.adjustConcurrency(),
-      this.adjustIntervalMs
+  private readonly config: MegaverseConfig;
+  private concurrency: number;
+  private readonly concurrencyControl: AimdController;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+  private metrics?: RunMetrics;
+  private failures: FailedOperation[] = [];
+  private pending = new Map<string, Operation>(); // Planned, not done yet
+  private skipped: Position[] = []; // Cells the last map reads skipped
+  private readonly stopTimer: () => void;
+  /** what the universe looks like, kept current as operations land */
+  readonly state: UniverseState;
+
+  constructor(
+    private readonly api: IMegaverseApiClient,
+    private readonly options: MegaverseBuilderOptions = {}
+  ) {
+    this.config = options.config ?? DEFAULT_CONFIG;
+    this.clock = options.clock ?? systemClock;
+    this.logger = options.logger ?? defaultLogger;
+    this.concurrency = this.config.concurrency.initial;
+    // Map reads ride out rate limits and 5xx just like writes
+    const read = <T>(request: () => Promise<T>) =>
+      retry(request, this.readRetryOpts());
+    const reads = {
+      getGoalMap: () => read(() => api.getGoalMap()),
+      getCurrentMap: () => read(() => api.getCurrentMap()),
+    };
+    this.state = new UniverseState(reads, {
+      reconcileIntervalMs: this.config.state.reconcileIntervalMs,
+      clock: this.clock,
+      logger: this.logger,
+    });
+    // +1 worker per quiet interval, halve on rate limiting
+    this.concurrencyControl = new AimdController({
+      initial: this.concurrency,
+      min: 1,
+      max: this.config.concurrency.max,
+      increase: 1,
+      decrease: 0.5,
+      quietPeriodMs: this.config.concurrency.adjustIntervalMs,
+      clock: this.clock,
+    });
+    this.stopTimer = this.clock.setInterval(
+      () => this.adjustConcurrency(true),
+      this.config.concurrency.adjustIntervalMs
     );
   }
 
   /* ---------------------- public API ------------------------------------ */
 
   /** remove *everything* */
-  public async cleanUniverse(): Promise<void> {
+  public async cleanUniverse(): Promise<RunResult> {
+    this.beginRun("clean");
+    return this.cancellable(() => this.clean());
+  }
+
+  private async clean(): Promise<RunResult> {
     /* 1️⃣  first pass – bulk delete at configured speed --------------- */
-    let todo = this.toDeleteTasks(await this.api.getCurrentMap());
+    const todo = this.deletionsFor(await this.state.current());
 
     if (!todo.length) {
-      console.log("✅ Universe already empty.");
-      return;
+      if (!this.skipped.length) {
+        this.logger.info("✅ Universe already empty.");
+      }
+      return this.finishRun([]);
     }
 
-    console.log(`🧹 Deleting ${todo.length} objects…`);
-    await this.runWithProgress(todo, "deleted"); // batching + progress + retries
+    this.logger.info(`🧹 Deleting ${todo.length} objects…`);
+    // batching + progress + retries
+    await this.runWithProgress(
+      todo,
+      this.toDeleteTasks(todo),
+      "deleted"
+    );
 
     /* 2️⃣  verification + automatic clean-up --------------------------- */
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      const leftovers = this.toDeleteTasks(
-        await this.api.getCurrentMap()
+    const survivors = await this.verify(
+      async () => this.deletionsFor(await this.state.reconcile()),
+      (ops) => this.toDeleteTasks(ops)
+    );
+
+    if (survivors.length) {
+      this.logger.error(
+        `🛑 Gave up after ${VERIFY_ATTEMPTS} clean-up attempts. ${survivors.length} objects remain.`
       );
+    } else if (!this.skipped.length) {
+      this.logger.info("✅ Universe is fully blue.");
+    }
+    return this.finishRun(survivors);
+  }
 
-      if (!leftovers.length) {
-        console.log("✅ Universe is fully blue.");
-        return;
+  /**
+   * build full universe, skipping / fixing as needed; `target` replaces
+   * the API goal map when given (e.g. a saved snapshot)
+   */
+  public buildUniverse = async (
+    target?: string[][]
+  ): Promise<RunResult> => {
+    this.beginRun("build");
+    return this.cancellable(() => this.build(target));
+  };
+
+  /** reconcile the live universe toward a saved map */
+  public async restoreUniverse(
+    saved: string[][]
+  ): Promise<RunResult> {
+    this.beginRun("restore");
+    return this.cancellable(() => this.build(saved));
+  }
+
+  /**
+   * carry out a saved plan against a fresh read: changes already made
+   * are skipped, and cells that changed since the plan was made are
+   * left alone rather than overwritten
+   */
+  public async applyPlan(changes: Operation[]): Promise<RunResult> {
+    this.beginRun("apply");
+    return this.cancellable(async () =>
+      this.build(
+        this.planTarget(changes, await this.state.reconcile())
+      )
+    );
+  }
+
+  /** the map `changes` lead to, from `current` */
+  private planTarget(
+    changes: Operation[],
+    current: CurrentCell[][]
+  ): string[][] {
+    const target = current.map((row) =>
+      row.map((cell): string => toToken(cell) ?? "SPACE")
+    );
+    const stale: Operation[] = [];
+    for (const op of changes) {
+      const have = target[op.row]?.[op.column];
+      const before =
+        op.kind === "create"
+          ? "SPACE"
+          : op.kind === "replace"
+          ? op.previous
+          : op.body;
+      const after = op.kind === "delete" ? "SPACE" : op.body;
+      if (have === before || have === after) {
+        target[op.row][op.column] = after;
+      } else {
+        stale.push(op);
       }
+    }
 
-      console.warn(
-        `❌ ${leftovers.length} objects survived cleanup (attempt ${attempt}/3). Retrying…`
+    if (stale.length) {
+      this.logger.warn(
+        `⚠ ${stale.length} planned cells changed since the plan was made; leaving them alone.`,
+        { stale: stale.map(cellKey) }
       );
+    }
+    return target;
+  }
 
-      // ultra-conservative sweep: 1 request every 1.7 s
-      await runtWithConcurrencyLimit(leftovers, 1);
+  /** sync, create what is still missing, then verify and fix the rest */
+  private async build(target?: string[][]): Promise<RunResult> {
+    this.options.journal?.startRun(target);
+
+    /* 1️⃣  quick diff first  ------------------------------------------------ */
+    await this.syncWithGoal(target);
+
+    /* 2️⃣  build only what’s still missing --------------------------------- */
+    const createTodo = (await this.diffAgainstGoal(target)).filter(
+      (op) => op.kind === "create"
+    );
+
+    if (createTodo.length) {
+      this.logger.info(`🚀 Creating ${createTodo.length} objects…`);
+      await this.runWithProgress(
+        createTodo,
+        this.journaled(createTodo),
+        "created"
+      );
+    } else {
+      this.logger.info("🎉 Nothing left to create.");
     }
 
-    console.error(
-      "🛑 Gave up after 3 clean-up attempts. Universe still not empty."
+    /* 3️⃣  final guarantee -------------------------------------------------- */
+    return this.finishRun(await this.verifyGoal(target));
+  }
+
+  /** current map in goal-map tokens, ready to be saved and restored */
+  public async snapshotUniverse(): Promise<Cell[][]> {
+    const current = await this.state.reconcile();
+    return current.map((row) =>
+      row.map((cell): Cell => toToken(cell) ?? "SPACE")
     );
   }
 
-  /** build full universe, skipping / fixing as needed */
-  public buildUniverse = async (): Promise<void> => {
-    /* 1️⃣  quick diff first  ------------------------------------------------ */
-    await this.syncWithGoal();
+  /** pick up an interrupted build where the journal left it */
+  public async resumeBuild(): Promise<RunResult> {
+    this.beginRun("resume");
+    return this.cancellable(() => this.resume());
+  }
 
-    /* 2️⃣  build only what’s still missing --------------------------------- */
-    const [goal, current] = await Promise.all([
-      this.api.getGoalMap(),
-      this.api.getCurrentMap(),
-    ]);
-
-    const createTodo: Array<() => Promise<void>> = [];
-    for (let r = 0; r < goal.length; r++) {
-      for (let c = 0; c < goal[0].length; c++) {
-        if (this.isSame(goal[r][c], current[r][c])) continue;
-        createTodo.push(() => this.createFromToken(goal[r][c], r, c));
-      }
+  private async resume(): Promise<RunResult> {
+    const journal = this.options.journal;
+    if (!journal?.continueRun()) {
+      this.logger.info(
+        "📭 Nothing to resume, starting a fresh build."
+      );
+      return this.build();
     }
 
-    if (createTodo.length) {
-      console.log(`🚀 Creating ${createTodo.length} objects…`);
-      await this.runWithProgress(createTodo, "created");
+    // A restore or --target run resumes toward the same map
+    const target = journal.target();
+
+    /* 1️⃣  trust the journal only if the live map still agrees ----------- */
+    const current = await this.state.current();
+    if (journal.succeeded().some((op) => !isApplied(op, current))) {
+      this.logger.warn(
+        "⚠ Live map diverged from the journal. Falling back to a fresh diff…"
+      );
+      return this.build(target);
+    }
+
+    /* 2️⃣  replay what never completed ------------------------------------ */
+    const unknown = new Set(
+      this.leaveAlone(current).map((p) => `${p.row},${p.column}`)
+    );
+    const todo = sortOperations(
+      journal
+        .outstanding()
+        .filter(
+          (op) => !isApplied(op, current) && !unknown.has(cellKey(op))
+        )
+    );
+    if (todo.length) {
+      this.logger.info(
+        `⏯️ Resuming ${todo.length} outstanding operations…`
+      );
+      await this.runWithProgress(
+        todo,
+        this.journaled(todo),
+        "resumed"
+      );
     } else {
-      console.log("🎉 Nothing left to create.");
+      this.logger.info("🎉 Nothing outstanding in the journal.");
     }
 
     /* 3️⃣  final guarantee -------------------------------------------------- */
-    await this.syncWithGoal();
-  };
+    return this.finishRun(await this.verifyGoal(target));
+  }
+
+  /** diff goal (or `target`) ↔ current without touching the universe */
+  public async planUniverse(
+    target?: string[][]
+  ): Promise<Operation[]> {
+    return this.diffAgainstGoal(target);
+  }
+
+  /** metrics of the latest build, clean or resume (so far, if running) */
+  public report(): RunReport | undefined {
+    return this.metrics?.toReport();
+  }
 
   /** call at program end */
   public stopAdjusting() {
-    clearInterval(this.adjustTimer);
+    this.stopTimer();
   }
 
   /* -------------------- core helpers ------------------------------------ */
 
-  /** compare goal token ↔ current cell */
-  private isSame(token: string, cell: CurrentCell | null): boolean {
-    return (
-      (token === "SPACE" && !cell) ||
-      (token === "POLYANET" && cell?.type === 0) ||
-      (isSoloonToken(token) &&
-        cell?.type === 1 &&
-        cell.color === token.split("_")[0].toLowerCase()) ||
-      (isComethToken(token) &&
-        cell?.type === 2 &&
-        cell.direction === token.split("_")[0].toLowerCase())
+  /** fresh metrics for a build, clean or resume */
+  private beginRun(action: string): void {
+    const { limiter } = this.options;
+    this.metrics = new RunMetrics(
+      action,
+      this.clock,
+      limiter && (() => limiter.totals)
     );
+    this.metrics.concurrencyChanged(this.concurrency);
+    this.failures = [];
+    this.pending.clear();
+    this.skipped = [];
+    this.state.invalidate(); // Seed the run from one fresh read
+  }
+
+  /** close the run's metrics and sum it up */
+  private finishRun(
+    wrongCells: Operation[],
+    cancelled = false
+  ): RunResult {
+    this.metrics?.finish(wrongCells, cancelled, this.skipped);
+    if (this.skipped.length && !cancelled) {
+      this.logger.warn(
+        `⏭️ Left ${this.skipped.length} cells with unknown contents alone.`,
+        { skipped: this.skipped }
+      );
+    }
+    return {
+      ok: !cancelled && !wrongCells.length && !this.skipped.length,
+      cancelled,
+      failed: [...this.failures],
+      wrongCells,
+      skipped: [...this.skipped],
+    };
+  }
+
+  /**
+   * cells the latest reads of `maps` skipped: nothing is known about
+   * them, so no operation may touch them and the run can't be ok
+   */
+  private leaveAlone(
+    ...maps: Array<{ skipped?: Position[] }>
+  ): Position[] {
+    const cells = new Map<string, Position>();
+    for (const p of maps.flatMap((m) => m.skipped ?? [])) {
+      cells.set(`${p.row},${p.column}`, p);
+    }
+    this.skipped = [...cells.values()];
+    return this.skipped;
+  }
+
+  /** run `body`; if the signal stops it, sum up what was left undone */
+  private async cancellable(
+    body: () => Promise<RunResult>
+  ): Promise<RunResult> {
+    try {
+      return await body();
+    } catch (err) {
+      if (!this.isCancellation(err)) throw err;
+      const remaining = [...this.pending.values()];
+      this.logger.warn(
+        `✋ Stopped with ${remaining.length} operations left to do.`,
+        { remaining: remaining.length }
+      );
+      return this.finishRun(remaining, true);
+    }
+  }
+
+  /** `err` is the signal's abort, not a failure of the operation */
+  private isCancellation(err: unknown): boolean {
+    const signal = this.options.signal;
+    return Boolean(signal?.aborted) && err === signal!.reason;
+  }
+
+  /** throw the abort reason once the signal fires */
+  private checkCancelled(): void {
+    this.options.signal?.throwIfAborted();
+  }
+
+  /** ops a phase is about to run count as undone until they succeed */
+  private plan(ops: Operation[]): void {
+    for (const op of ops) this.pending.set(cellKey(op), op);
+  }
+
+  /**
+   * Re-read the universe and fix whatever `remaining` still finds wrong,
+   * one request at a time, for up to `VERIFY_ATTEMPTS` sweeps. Returns
+   * what is still wrong after the last sweep.
+   */
+  private async verify(
+    remaining: () => Promise<Operation[]>,
+    fix: (ops: Operation[]) => Array<() => Promise<void>>
+  ): Promise<Operation[]> {
+    for (let attempt = 1; ; attempt++) {
+      this.checkCancelled();
+      const wrong = await remaining();
+      if (!wrong.length || attempt > VERIFY_ATTEMPTS) return wrong;
+
+      this.logger.warn(
+        `❌ ${wrong.length} cells still wrong (attempt ${attempt}/${VERIFY_ATTEMPTS}). Retrying…`,
+        { attempt, cells: wrong.length }
+      );
+      await this.oneByOne(wrong, fix(wrong));
+    }
   }
 
-  /** create according to token (already validated) */
-  private createFromToken(
-    token: string,
-    r: number,
-    c: number
+  /** verify a build against the goal (or `target`) */
+  private async verifyGoal(
+    target?: string[][]
+  ): Promise<Operation[]> {
+    const wrong = await this.verify(
+      () => this.diffAgainstGoal(target, true),
+      (ops) => this.journaled(ops)
+    );
+    if (wrong.length) {
+      this.logger.error(
+        `🛑 ${wrong.length} cells still differ from the goal after ${VERIFY_ATTEMPTS} attempts.`
+      );
+    } else if (!this.skipped.length) {
+      this.logger.info("✅ Map matches goal.");
+    }
+    return wrong;
+  }
+
+  /** run an operation's API calls, logging failures with their cell */
+  private async execute(op: Operation): Promise<void> {
+    const fields = {
+      operation: op.kind,
+      body: op.body,
+      row: op.row,
+      column: op.column,
+    };
+    this.logger.debug(
+      `${op.kind} ${op.body} at [${op.row},${op.column}]`,
+      fields
+    );
+    const started = this.clock.now();
+    try {
+      await this.apply(op);
+    } catch (err) {
+      if (err instanceof RateLimitedError)
+        this.metrics?.rateLimitHit();
+      if (!isRetryable(err) && !this.isCancellation(err)) {
+        this.logger.error(
+          `🚫 Not retrying: ${(err as Error)?.message ?? err}`,
+          { ...fields, error: err }
+        );
+      }
+      throw err;
+    } finally {
+      const calls = op.kind === "replace" ? 2 : 1;
+      this.metrics?.sent(calls, this.clock.now() - started);
+    }
+  }
+
+  /** count the operation once, whether it needs one attempt or many */
+  private async tracked(
+    op: Operation,
+    run: () => Promise<void>
   ): Promise<void> {
-    if (token === "POLYANET") return this.api.createPolyanet(r, c);
-    if (isSoloonToken(token))
-      return this.api.createSoloon(
-        r,
-        c,
-        token.split("_")[0].toLowerCase() as SoloonColor
+    this.metrics?.attempted(op);
+    this.emit({ type: "op-start", op });
+    try {
+      await run();
+      this.state.applied(op);
+      this.metrics?.settled(op, true);
+      this.pending.delete(cellKey(op));
+      this.emit({ type: "op-end", op, ok: true });
+    } catch (err) {
+      // Never got to run: still pending, but nothing failed
+      if (this.isCancellation(err)) throw err;
+      this.metrics?.settled(op, false);
+      this.emit({ type: "op-end", op, ok: false });
+      this.failures.push({
+        op,
+        error: (err as Error)?.message ?? String(err),
+      });
+      throw err;
+    }
+  }
+
+  /** an operation's API calls, in the order they must happen */
+  private async apply(op: Operation): Promise<void> {
+    const { row, column } = op;
+    const body = bodyFromToken(op.body);
+    switch (op.kind) {
+      case "create":
+        return this.idempotent(op, () =>
+          this.api.createBody(row, column, body)
+        );
+      case "delete":
+        return this.idempotent(op, () =>
+          this.api.deleteBody(row, column, body.kind)
+        );
+      case "replace": {
+        // Each half is checked on its own: the delete may have landed
+        const previous = bodyFromToken(op.previous!);
+        await this.idempotent(
+          { ...op, kind: "delete", body: op.previous! },
+          () => this.api.deleteBody(row, column, previous.kind)
+        );
+        // Once the cell is emptied, Ctrl+C must not leave it that way
+        return this.idempotent({ ...op, kind: "create" }, () =>
+          this.api.createBody(row, column, body, {
+            evenIfAborted: true,
+          })
+        );
+      }
+      default:
+        return assertNever(op.kind);
+    }
+  }
+
+  /**
+   * Send `call` for `op`. When it fails in a way that may still have
+   * changed the cell (timeout, 5xx, "already exists", "already gone"),
+   * re-read the map and count the call as done if the cell shows it,
+   * rather than failing or sending it again.
+   */
+  private async idempotent(
+    op: Operation,
+    call: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await call();
+    } catch (err) {
+      if (!mayHaveApplied(err) || !(await this.tookEffect(op))) {
+        throw err;
+      }
+      this.logger.info(
+        `↩️ ${op.kind} ${op.body} at [${op.row},${op.column}] had already taken effect`,
+        {
+          operation: op.kind,
+          row: op.row,
+          column: op.column,
+          error: err,
+        }
       );
-    if (isComethToken(token))
-      return this.api.createCometh(
-        r,
-        c,
-        token.split("_")[0].toLowerCase() as ComethDirection
+    }
+  }
+
+  /** whether a fresh read of the map shows `op` done */
+  private async tookEffect(op: Operation): Promise<boolean> {
+    try {
+      return isApplied(op, await this.state.reconcile());
+    } catch {
+      return false; // Can't tell: let the original error stand
+    }
+  }
+
+  /** tasks for `ops` that report their progress to the journal */
+  private journaled(ops: Operation[]): Array<() => Promise<void>> {
+    const journal = this.options.journal;
+    if (!journal) {
+      return ops.map(
+        (op) => () => this.tracked(op, () => this.execute(op))
       );
-    return Promise.resolve(); // SPACE
+    }
+
+    ops.forEach((op) => journal.record("planned", op));
+    return ops.map(
+      (op) => () =>
+        this.tracked(op, async () => {
+          journal.record("attempted", op);
+          try {
+            await this.execute(op);
+          } catch (err) {
+            journal.record("failed", op, err);
+            throw err;
+          }
+          journal.record("succeeded", op);
+        })
+    );
+  }
+
+  /** operations that empty every occupied cell of `grid` */
+  private deletionsFor(grid: MapRead<CurrentCell>): Operation[] {
+    return planReconciliation(
+      emptyGoalFor(grid),
+      grid,
+      this.leaveAlone(grid)
+    );
   }
 
-  /** build delete tasks from current map */
+  /** delete tasks, each retried with backoff */
   private toDeleteTasks(
-    grid: CurrentCell[][]
+    ops: Operation[]
   ): Array<() => Promise<void>> {
-    const del = [
-      (r: number, c: number) => this.api.deletePolyanet(r, c),
-      (r: number, c: number) => this.api.deleteSoloon(r, c),
-      (r: number, c: number) => this.api.deleteCometh(r, c),
-    ] as const;
-
-    const tasks: Array<() => Promise<void>> = [];
-    grid.forEach((row, r) =>
-      row.forEach((cell, c) => {
-        if (cell) tasks.push(() => del[cell.type](r, c));
-      })
+    return ops.map(
+      (op) => () =>
+        this.tracked(op, () =>
+          retry(() => this.execute(op), this.makeRetryOpts(op))
+        )
     );
-    return tasks.map((fn) => () => retry(fn, this.makeRetryOpts()));
-  }
-
-  /** ensure current map === goal map (minimal diff, 1 req / 1.7 s) */
-  private async syncWithGoal(): Promise<void> {
-    const [goal, current] = await Promise.all([
-      this.api.getGoalMap(),
-      this.api.getCurrentMap(),
-    ]);
-
-    const todo: Array<() => Promise<void>> = [];
-
-    goal.forEach((row, r) =>
-      row.forEach((token, c) => {
-        const have = current[r][c];
-        if (this.isSame(token, have)) return;
-
-        /* delete wrong */
-        if (have) {
-          const del = [
-            () => this.api.deletePolyanet(r, c),
-            () => this.api.deleteSoloon(r, c),
-            () => this.api.deleteCometh(r, c),
-          ] as const;
-          todo.push(del[have.type]);
-        }
-        /* create right */
-        todo.push(() => this.createFromToken(token, r, c));
-      })
+  }
+
+  /**
+   * Plan the difference between the goal (unless a `target` is given)
+   * and the current map, polyanets before the soloons next to them. The
+   * cached map is used unless `fresh` asks for a server read. Throws if
+   * the goal or the plan breaks a placement rule, so nothing is sent
+   * for an impossible universe.
+   */
+  private async diffAgainstGoal(
+    target?: string[][],
+    fresh = false
+  ): Promise<Operation[]> {
+    this.checkCancelled();
+    const [goal, current]: [MapRead<string>, MapRead<CurrentCell>] =
+      await Promise.all([
+        target ?? this.state.goal(),
+        fresh ? this.state.reconcile() : this.state.current(),
+      ]);
+
+    const goalViolations = validateGoal(goal as Cell[][]);
+    const [rows, cols] = [current.length, current[0]?.length ?? 0];
+    if (goal.length !== rows || (goal[0]?.length ?? 0) !== cols) {
+      goalViolations.push({
+        rule: "in-bounds",
+        row: goal.length,
+        column: goal[0]?.length ?? 0,
+        message: `map is ${goal.length}×${
+          goal[0]?.length ?? 0
+        } but the universe is ${rows}×${cols}`,
+      });
+    }
+    if (goalViolations.length) {
+      throw new UniverseValidationError("Goal map", goalViolations);
+    }
+
+    const plan = sortOperations(
+      planReconciliation(
+        goal,
+        current,
+        this.leaveAlone(goal, current)
+      )
     );
+    const before = current.map((row) =>
+      row.map((cell): Cell => toToken(cell) ?? "SPACE")
+    );
+    const planViolations = validatePlan(plan, before);
+    if (planViolations.length) {
+      throw new UniverseValidationError("Plan", planViolations);
+    }
 
-    if (!todo.length) {
-      console.log("✅ Map already matches goal.");
+    return plan;
+  }
+
+  /** ensure current map === goal map (minimal diff, one at a time) */
+  private async syncWithGoal(target?: string[][]): Promise<void> {
+    const ops = await this.diffAgainstGoal(target);
+
+    if (!ops.length) {
+      this.logger.info("✅ Map already matches goal.");
       return;
     }
 
-    console.log(`🔧 Fixing ${todo.length} cells…`);
-    await runtWithConcurrencyLimit(todo, 1);
-    console.log("✅ Map corrected.");
+    this.logger.info(`🔧 Fixing ${ops.length} cells…`);
+    const results = await this.oneByOne(ops, this.journaled(ops));
+    const failed = results.filter((r) => r.status === "rejected");
+    if (failed.length) {
+      this.logger.warn(
+        `⚠ ${failed.length} of ${ops.length} cells could not be fixed.`
+      );
+    } else {
+      this.logger.info("✅ Map corrected.");
+    }
   }
 
   /* ---------------- batching / retry / progress ------------------------ */
 
+  /** batched pass over `ops`, announced as a phase for progress output */
   private async runWithProgress(
-    raw: Array<() => Promise<void>>,
-    label: "created" | "deleted"
+    ops: Operation[],
+    tasks: Array<() => Promise<void>>,
+    label: PhaseLabel
   ) {
-    const log = createProgressLogger(label, raw.length, 10);
-    const wrapped = raw.map((fn) => async () => {
-      try {
-        await fn();
-      } finally {
-        log();
-      }
+    this.plan(ops);
+    this.emit({
+      type: "phase-start",
+      label,
+      ops,
+      concurrency: this.concurrency,
+    });
+    let results: PromiseSettledResult<void>[];
+    try {
+      results = await this.inStages(ops, tasks, (t) =>
+        this.processBatches(t)
+      );
+    } finally {
+      this.emit({ type: "phase-end", label });
+    }
+
+    const failed = results.filter((r) => r.status === "rejected");
+    if (failed.length) {
+      this.logger.warn(
+        `⚠ ${failed.length} of ${ops.length} operations failed, verifying…`
+      );
+    }
+  }
+
+  /**
+   * Run `tasks` (one per op) stage by stage: deletes, then polyanets,
+   * then the bodies that depend on them. Each stage finishes before the
+   * next starts, so a soloon's POST never races the polyanet it needs.
+   */
+  private async inStages(
+    ops: Operation[],
+    tasks: Array<() => Promise<void>>,
+    run: (
+      tasks: Array<() => Promise<void>>
+    ) => Promise<PromiseSettledResult<void>[]>
+  ): Promise<PromiseSettledResult<void>[]> {
+    const taskFor = new Map(ops.map((op, i) => [op, tasks[i]]));
+    const results: PromiseSettledResult<void>[] = [];
+    let held = 0;
+    for (const stage of splitStages(ops)) {
+      const ready = await this.placeable(stage);
+      held += stage.length - ready.length;
+      results.push(
+        ...(await run(ready.map((op) => taskFor.get(op)!)))
+      );
+    }
+    if (held) {
+      this.logger.warn(
+        `⏭️ Held back ${held} operations whose placement rule isn't met yet.`
+      );
+    }
+    return results;
+  }
+
+  /**
+   * `ops` whose placement rule holds on the cached map; a soloon whose
+   * polyanet failed to land stays pending for verification instead of
+   * being sent to a server that will reject it
+   */
+  private async placeable(ops: Operation[]): Promise<Operation[]> {
+    const ruled = (op: Operation) =>
+      op.kind !== "delete" &&
+      bodyType(bodyFromToken(op.body).kind).rule;
+    if (!ops.some(ruled)) return ops;
+
+    const current = await this.state.current();
+    const tokenAt = (row: number, column: number) => {
+      const cell = current[row]?.[column];
+      return cell === undefined
+        ? undefined
+        : toToken(cell) ?? "SPACE";
+    };
+    return ops.filter((op) => {
+      const rule = ruled(op);
+      return !rule || rule.allows(tokenAt, op.row, op.column);
     });
-    await this.processBatches(wrapped);
+  }
+
+  /** ultra-conservative pass: one request at a time */
+  private async oneByOne(
+    ops: Operation[],
+    tasks: Array<() => Promise<void>>
+  ): Promise<PromiseSettledResult<void>[]> {
+    this.plan(ops);
+    this.emit({
+      type: "phase-start",
+      label: "fixed",
+      ops,
+      concurrency: 1,
+    });
+    try {
+      return await this.inStages(ops, tasks, async (t) => {
+        const results = await runtWithConcurrencyLimit(
+          t,
+          1,
+          this.options.signal
+        );
+        this.checkCancelled();
+        return results;
+      });
+    } finally {
+      this.emit({ type: "phase-end", label: "fixed" });
+    }
+  }
+
+  private emit(event: BuilderEvent): void {
+    this.options.onEvent?.(event);
   }
 
   private async processBatches<T>(
     tasks: Array<() => Promise<T>>
   ): Promise<PromiseSettledResult<T>[]> {
+    const { size, delayMs } = this.config.batch;
     const results: PromiseSettledResult<T>[] = [];
-    for (let i = 0; i < tasks.length; i += this.batchSize) {
-      const batch = tasks.slice(i, i + this.batchSize);
+    for (let i = 0; i < tasks.length; i += size) {
+      const batch = tasks.slice(i, i + size);
       const r = await runtWithConcurrencyLimit(
         batch,
-        this.concurrency
+        this.concurrency,
+        this.options.signal
       );
       results.push(...r);
+      this.checkCancelled();
 
-      const rateErrors = r.filter(
-        (x) =>
-          x.status === "rejected" &&
-          /429/.test((x as any).reason?.message)
-      ).length;
-      if (rateErrors) {
-        this.error429 += rateErrors;
+      const failures = r.flatMap((x) =>
+        x.status === "rejected" ? [x.reason] : []
+      );
+      if (failures.some((err) => err instanceof RateLimitedError)) {
+        this.concurrencyControl.record({ status: 429 });
         this.adjustConcurrency();
       }
-      if (i + this.batchSize < tasks.length)
-        await sleep(this.batchDelayMs);
+      if (i + size < tasks.length) {
+        this.metrics?.slept(delayMs);
+        await this.clock.sleep(delayMs, this.options.signal);
+      }
     }
     return results;
   }
 
-  private makeRetryOpts(): RetryOptions {
+  private makeRetryOpts(op: Operation): RetryOptions {
     return {
-      retries: 8,
-      factor: 2,
-      minTimeout: 1_000,
-      maxTimeout: 60_000,
+      ...this.readRetryOpts(),
+      onRetry: (_err, attempt, delayMs) => {
+        this.metrics?.retried(delayMs);
+        this.emit({ type: "retry", op, attempt, delayMs });
+      },
+      logger: this.logger.child({
+        operation: op.kind,
+        row: op.row,
+        column: op.column,
+      }),
+    };
+  }
+
+  /** retry tuning shared by map reads and (with events) operations */
+  private readRetryOpts(): RetryOptions {
+    const { retries, factor, minTimeoutMs, maxTimeoutMs } =
+      this.config.retry;
+    return {
+      retries,
+      factor,
+      minTimeout: minTimeoutMs,
+      maxTimeout: maxTimeoutMs,
+      clock: this.clock,
+      signal: this.options.signal,
+      logger: this.logger,
+      onRetry: (_err, _attempt, delayMs) =>
+        this.metrics?.retried(delayMs),
+      // 4xx other than 429 fail at once: resending can't fix them
       shouldRetry: (err) => {
-        const is429 = /429/.test(err.message);
-        if (is429) this.error429++;
-        return is429 || /5\d{2}/.test(err.message);
+        if (err instanceof RateLimitedError) {
+          this.concurrencyControl.record({ status: 429 });
+        }
+        return isRetryable(err);
       },
     };
   }
 
-  private adjustConcurrency() {
-    if (!this.error429) {
-      this.concurrency = Math.min(
-        this.concurrency + 1,
-        this.maxConcurrency
-      );
-    } else {
-      this.concurrency = Math.max(
-        1,
-        this.concurrency - this.error429
-      );
-    }
-    console.log(
-      `↔️ Concurrency now ${this.concurrency} (rate-limit hits: ${this.error429})`
-    );
-    this.error429 = 0;
+  /** apply the controller's verdict; a timer tick is a quiet sample */
+  private adjustConcurrency(tick = false) {
+    if (tick) this.concurrencyControl.record({});
+
+    const next = Math.floor(this.concurrencyControl.limit);
+    if (next === this.concurrency) return;
+    this.concurrency = next;
+    this.metrics?.concurrencyChanged(next);
+    this.emit({ type: "concurrency", concurrency: next });
+    this.logger.info(`↔️ Concurrency now ${this.concurrency}`, {
+      concurrency: this.concurrency,
+    });
   }
 }
+
+/** one entry per cell: a later op for the same cell supersedes it */
+function cellKey(op: Operation): string {
+  return `${op.row},${op.column}`;
+}
@@ -0,0 +1,153 @@
+/* -------------------------------------------------------------------------- */
+/*  UniverseState                                                             */
+/* -------------------------------------------------------------------------- */
+import {
+  CurrentCell,
+  IMegaverseApiClient,
+  MapRead,
+} from "../api/MegaverseApiClient";
+import { Position } from "../domain/models";
+import { Clock, systemClock } from "../utils/clock";
+import { Logger, defaultLogger } from "../utils/logger";
+import { freshReader } from "../utils/freshRead";
+import { Operation, toCell } from "./planReconciliation";
+
+export interface UniverseStateOptions {
+  reconcileIntervalMs?: number; // Max age of the cached map (0 = always re-read)
+  clock?: Clock;
+  logger?: Logger;
+}
+
+/**
+ * Local model of the universe, so planning doesn't cost a GET every
+ * time. The current map is seeded from one `getCurrentMap()`, updated
+ * as operations succeed, and reconciled with the server once it is
+ * older than `reconcileIntervalMs` (or on demand, e.g. to verify). The
+ * goal map never changes and is fetched once.
+ */
+export class UniverseState {
+  private map?: CurrentCell[][];
+  private skipped: Position[] = []; // Unknown cells in the last read
+  private readAt = -Infinity;
+  private goalMap?: Promise<MapRead<string>>;
+  // Successful ops by sequence number, replayed over reads that may
+  // have started before the server applied them
+  private seq = 0;
+  private recent: Array<{ seq: number; op: Operation }> = [];
+  private readonly read: () => Promise<CurrentCell[][]>;
+  private readonly intervalMs: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly api: Pick<
+      IMegaverseApiClient,
+      "getGoalMap" | "getCurrentMap"
+    >,
+    options: UniverseStateOptions = {}
+  ) {
+    this.intervalMs = options.reconcileIntervalMs ?? 60_000;
+    this.clock = options.clock ?? systemClock;
+    this.logger = options.logger ?? defaultLogger;
+    // Reads that pile up behind one in flight share the next one
+    this.read = freshReader(async () => {
+      const since = this.seq;
+      const startedAt = this.clock.now();
+      const map = await this.api.getCurrentMap();
+      this.adopt(map, since, startedAt);
+      return map;
+    });
+  }
+
+  /** the goal map, fetched on first use */
+  goal(): Promise<MapRead<string>> {
+    this.goalMap ??= this.api.getGoalMap().catch((err) => {
+      this.goalMap = undefined; // Let the next caller try again
+      throw err;
+    });
+    return this.goalMap;
+  }
+
+  /** the map as we believe it is, re-read first if missing or stale */
+  async current(): Promise<MapRead<CurrentCell>> {
+    if (
+      !this.map ||
+      this.clock.now() - this.readAt >= this.intervalMs
+    ) {
+      return this.reconcile();
+    }
+    return this.snapshot();
+  }
+
+  /** re-read the map from the server, whatever the cache holds */
+  async reconcile(): Promise<MapRead<CurrentCell>> {
+    await this.read();
+    return this.snapshot();
+  }
+
+  /** `op` succeeded: show it in the cached map */
+  applied(op: Operation): void {
+    this.recent.push({ seq: ++this.seq, op });
+    if (this.map) setCell(this.map, op);
+  }
+
+  /** forget the cached map; the next `current()` reads it afresh */
+  invalidate(): void {
+    this.map = undefined;
+    this.skipped = [];
+    this.recent = [];
+  }
+
+  /** a copy of the cached map, with the cells its last read skipped */
+  private snapshot(): MapRead<CurrentCell> {
+    const map = copy(this.map!);
+    return this.skipped.length
+      ? Object.assign(map, { skipped: [...this.skipped] })
+      : map;
+  }
+
+  /** take a server read as the truth, plus what succeeded since */
+  private adopt(
+    map: MapRead<CurrentCell>,
+    since: number,
+    startedAt: number
+  ): void {
+    const fresh = copy(map);
+    this.recent = this.recent.filter((r) => r.seq > since);
+    for (const { op } of this.recent) setCell(fresh, op);
+
+    if (this.map) {
+      const drift = countDifferences(this.map, fresh);
+      if (drift) {
+        this.logger.info(
+          `🔄 Cached map was off by ${drift} cells, reconciled with the server.`,
+          { cells: drift }
+        );
+      }
+    }
+    this.map = fresh;
+    this.skipped = map.skipped ?? [];
+    this.readAt = startedAt;
+  }
+}
+
+function copy(map: CurrentCell[][]): CurrentCell[][] {
+  return map.map((row) => [...row]);
+}
+
+function setCell(map: CurrentCell[][], op: Operation): void {
+  const row = map[op.row];
+  if (!row || op.column >= row.length) return;
+  row[op.column] = op.kind === "delete" ? null : toCell(op.body);
+}
+
+function countDifferences(a: CurrentCell[][], b: CurrentCell[][]) {
+  let n = 0;
+  b.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      if (JSON.stringify(a[r]?.[c] ?? null) !== JSON.stringify(cell))
+        n++;
+    })
+  );
+  return n;
+}
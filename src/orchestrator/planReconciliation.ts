@@ -0,0 +1,159 @@
+/* -------------------------------------------------------------------------- */
+/*  Reconciliation planner                                                    */
+/* -------------------------------------------------------------------------- */
+import {
+  BodyCell,
+  CurrentCell,
+  bodyFromCell,
+  bodyFromToken,
+  bodyToCell,
+  bodyToToken,
+  bodyType,
+  Position,
+  sameBody,
+} from "../domain/models";
+
+/** true for every token that stands for an object (not SPACE) */
+export function isBodyToken(t: string): t is BodyCell {
+  return bodyFromToken(t) !== null;
+}
+
+/* ------------------------------ model ------------------------------------ */
+export type OperationKind = "create" | "delete" | "replace";
+
+export interface Operation {
+  kind: OperationKind;
+  row: number;
+  column: number;
+  /** object to create (create/replace) or to remove (delete) */
+  body: BodyCell;
+  /** object currently in the cell, only set on "replace" */
+  previous?: BodyCell;
+}
+
+/** compare goal token ↔ current cell */
+export function isSame(
+  token: string,
+  cell: CurrentCell | null
+): boolean {
+  return sameBody(bodyFromToken(token), bodyFromCell(cell));
+}
+
+/** current cell → goal-map token (null for an empty cell) */
+export function toToken(cell: CurrentCell | null): BodyCell | null {
+  const body = bodyFromCell(cell);
+  return body && bodyToToken(body);
+}
+
+/** goal-map token → the cell the API reports for it (null for SPACE) */
+export function toCell(token: string): CurrentCell {
+  const body = bodyFromToken(token);
+  return body && bodyToCell(body);
+}
+
+/**
+ * Diff a goal map against the current map, cell by cell, in row-major
+ * order. Unknown goal tokens are treated as SPACE. Cells in
+ * `leaveAlone` (e.g. ones a map read skipped) get no operation.
+ */
+export function planReconciliation(
+  goal: string[][],
+  current: CurrentCell[][],
+  leaveAlone: readonly Position[] = []
+): Operation[] {
+  const ops: Operation[] = [];
+  const skip = new Set(leaveAlone.map((p) => `${p.row},${p.column}`));
+
+  goal.forEach((row, r) =>
+    row.forEach((token, c) => {
+      const have = current[r]?.[c] ?? null;
+      if (isSame(token, have) || skip.has(`${r},${c}`)) return;
+
+      const previous = toToken(have);
+      if (!isBodyToken(token)) {
+        ops.push({
+          kind: "delete",
+          row: r,
+          column: c,
+          body: previous!,
+        });
+      } else if (previous) {
+        ops.push({
+          kind: "replace",
+          row: r,
+          column: c,
+          body: token,
+          previous,
+        });
+      } else {
+        ops.push({ kind: "create", row: r, column: c, body: token });
+      }
+    })
+  );
+
+  return ops;
+}
+
+/** true when the map already shows the outcome of `op` */
+export function isApplied(
+  op: Operation,
+  current: CurrentCell[][]
+): boolean {
+  const cell = current[op.row]?.[op.column] ?? null;
+  return op.kind === "delete" ? !cell : isSame(op.body, cell);
+}
+
+/** goal made only of SPACE, with the same shape as `current` */
+export function emptyGoalFor(current: CurrentCell[][]): string[][] {
+  return current.map((row) => row.map(() => "SPACE"));
+}
+
+/* --------------------------- plan helpers -------------------------------- */
+const KIND_ORDER: Record<OperationKind, number> = {
+  delete: 0,
+  replace: 1,
+  create: 2,
+};
+
+/**
+ * deletes, then bodies free to go anywhere (polyanets), then those
+ * whose placement rule may depend on them (soloons)
+ */
+function stage(op: Operation): number {
+  if (op.kind === "delete") return 0;
+  return bodyType(bodyFromToken(op.body).kind).rule ? 2 : 1;
+}
+
+/** `ops` grouped by stage, in stage order; each must land before the next */
+export function splitStages(ops: Operation[]): Operation[][] {
+  const stages: Operation[][] = [];
+  for (const op of ops) (stages[stage(op)] ??= []).push(op);
+  return stages.filter(Boolean);
+}
+
+/**
+ * Deletes first (they free cells), then bodies without a placement
+ * rule, then the ones with a rule (a soloon needs a neighbouring
+ * polyanet). Replacements go before creations within a stage;
+ * row-major after that. Returns a new array.
+ */
+export function sortOperations(ops: Operation[]): Operation[] {
+  return [...ops].sort(
+    (a, b) =>
+      stage(a) - stage(b) ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      a.row - b.row ||
+      a.column - b.column
+  );
+}
+
+/** keep only the last operation planned for each cell */
+export function dedupeOperations(ops: Operation[]): Operation[] {
+  const byCell = new Map<string, Operation>();
+  for (const op of ops) {
+    const key = `${op.row},${op.column}`;
+    byCell.delete(key);
+    byCell.set(key, op);
+  }
+  return [...byCell.values()];
+}
@@ -0,0 +1,190 @@
+// src/utils/aimdController.ts
+
+/** the bits of a `Headers` object the controller reads */
+export interface HeaderReader {
+  get(name: string): string | null;
+}
+
+/** what one response (or failed attempt) tells the controller */
+export interface ResponseSample {
+  status?: number; // HTTP status, if a response arrived
+  latencyMs?: number; // Time from send to response
+  headers?: HeaderReader;
+  timedOut?: boolean; // No response within the timeout
+}
+
+import { Clock, systemClock } from "./clock";
+
+export interface AimdOptions {
+  initial: number; // Starting limit
+  min: number; // Never decrease below this
+  max: number; // Never increase above this
+  increase: number; // Added after every quiet period
+  decrease: number; // Multiplier on congestion, between 0 and 1
+  quietPeriodMs: number; // Congestion-free time before increasing
+  cooldownMs?: number; // Minimum time between two decreases
+  latencyTargetMs?: number; // p95 above this counts as congestion (0 = off)
+  latencyWindow?: number; // Latency samples kept for percentiles
+  clock?: Clock; // Time source, injectable for tests
+}
+
+/* statuses that mean "slow down" rather than "you sent a bad request" */
+const CONGESTION_STATUSES = new Set([429, 503]);
+
+/**
+ * Additive-increase / multiplicative-decrease control of a limit (a
+ * request rate or a concurrency). Congestion — 429/503, timeouts, a p95
+ * latency above target, or rate-limit headers running dry — cuts the
+ * limit by `decrease`; every `quietPeriodMs` without congestion adds
+ * `increase` back. `Retry-After` and exhausted `X-RateLimit-*` budgets
+ * also pause all traffic until the server says it may resume.
+ */
+export class AimdController {
+  private current: number;
+  private pausedUntil = 0;
+  private lastDecrease = -Infinity;
+  private lastChange: number;
+  private readonly latencies: number[] = [];
+  private readonly clock: Clock;
+
+  constructor(private readonly options: AimdOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.current = clamp(options.initial, options.min, options.max);
+    this.lastChange = this.clock.now();
+  }
+
+  /** the limit to apply right now */
+  get limit(): number {
+    return this.current;
+  }
+
+  /** how long callers should hold off before the next request */
+  pausedForMs(): number {
+    return Math.max(0, this.pausedUntil - this.clock.now());
+  }
+
+  /** latency percentile (0–100) over the recent window, 0 if unknown */
+  latencyPercentile(p: number): number {
+    if (!this.latencies.length) return 0;
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[clamp(rank - 1, 0, sorted.length - 1)];
+  }
+
+  /** feed one response; returns the (possibly updated) limit */
+  record(sample: ResponseSample): number {
+    const now = this.clock.now();
+
+    if (sample.latencyMs !== undefined) {
+      this.latencies.push(sample.latencyMs);
+      if (
+        this.latencies.length > (this.options.latencyWindow ?? 100)
+      ) {
+        this.latencies.shift();
+      }
+    }
+
+    if (sample.headers) this.readHeaders(sample.headers, now);
+
+    const { latencyTargetMs = 0 } = this.options;
+    const congested =
+      sample.timedOut ||
+      (sample.status !== undefined &&
+        CONGESTION_STATUSES.has(sample.status)) ||
+      (latencyTargetMs > 0 &&
+        this.latencyPercentile(95) > latencyTargetMs);
+
+    if (congested) {
+      this.backOff(this.current * this.options.decrease, now);
+    } else if (
+      now - this.lastChange >= this.options.quietPeriodMs &&
+      now - this.lastDecrease >= this.options.quietPeriodMs
+    ) {
+      this.current = Math.min(
+        this.options.max,
+        this.current + this.options.increase
+      );
+      this.lastChange = now;
+    }
+    return this.current;
+  }
+
+  /** lower the limit to `to`, at most once per cooldown */
+  private backOff(to: number, now: number): void {
+    const { cooldownMs = 1_000, min } = this.options;
+    if (now - this.lastDecrease < cooldownMs) return;
+
+    const next = Math.max(min, to);
+    if (next < this.current) this.current = next;
+    this.lastDecrease = this.lastChange = now;
+  }
+
+  /** honour Retry-After and X-RateLimit-Remaining/Reset style hints */
+  private readHeaders(headers: HeaderReader, now: number): void {
+    const retryAfter = parseRetryAfter(
+      headers.get("retry-after"),
+      now
+    );
+    if (retryAfter !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + retryAfter);
+    }
+
+    const remaining = toNumber(
+      headers.get("x-ratelimit-remaining") ??
+        headers.get("ratelimit-remaining")
+    );
+    const resetMs = parseReset(
+      headers.get("x-ratelimit-reset") ??
+        headers.get("ratelimit-reset"),
+      now
+    );
+    if (remaining === undefined || resetMs === undefined) return;
+
+    if (remaining <= 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + resetMs);
+      return;
+    }
+    // Spread what is left of the window evenly until it resets
+    const sustainable = remaining / Math.max(resetMs / 1_000, 0.001);
+    if (sustainable < this.current) {
+      this.current = Math.max(this.options.min, sustainable);
+      this.lastChange = now;
+    }
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Retry-After: delay in seconds or an HTTP date → ms from `now`
+ * (undefined when missing or unparsable)
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number
+): number | undefined {
+  const seconds = toNumber(value);
+  if (seconds !== undefined) return Math.max(0, seconds * 1_000);
+  const date = value ? Date.parse(value) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** reset: seconds until reset, or an epoch timestamp in seconds */
+function parseReset(
+  value: string | null,
+  now: number
+): number | undefined {
+  const seconds = toNumber(value);
+  if (seconds === undefined) return undefined;
+  return seconds > 1e9
+    ? Math.max(0, seconds * 1_000 - now)
+    : seconds * 1_000;
+}
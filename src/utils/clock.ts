@@ -0,0 +1,163 @@
+// src/utils/clock.ts
+
+import { sleep } from "./sleep";
+
+/**
+ * Everything time- or chance-dependent the client code needs, so tests
+ * can swap in a `FakeClock` instead of patching globals
+ */
+export interface Clock {
+  now(): number; // Milliseconds since the epoch (or a fake origin)
+  sleep(ms: number, signal?: AbortSignal): Promise<void>; // Rejects on abort
+  setInterval(fn: () => void, ms: number): () => void; // Returns cancel
+  random(): number; // Uniform in [0, 1)
+}
+
+/** mulberry32: tiny, fast and good enough for jitter */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** real time; `seed` makes the randomness reproducible */
+export function createSystemClock(seed?: number): Clock {
+  return {
+    now: () => Date.now(),
+    sleep: (ms, signal) => sleep(ms, signal),
+    setInterval: (fn, ms) => {
+      const timer = setInterval(fn, ms);
+      return () => clearInterval(timer);
+    },
+    random: seed === undefined ? Math.random : seededRandom(seed),
+  };
+}
+
+export const systemClock: Clock = createSystemClock();
+
+/* -------------------------------------------------------------------------- */
+/*  FakeClock                                                                 */
+/* -------------------------------------------------------------------------- */
+interface Timer {
+  at: number;
+  fn: () => void;
+  every?: number; // Set for intervals
+}
+
+/**
+ * Virtual time for tests. Pending `sleep`s resolve in deadline order
+ * as soon as the code under test is otherwise idle, jumping time
+ * forward, so hours of backoff take milliseconds. Intervals fire as
+ * time passes them but never keep the clock running on their own.
+ */
+export class FakeClock implements Clock {
+  private time: number;
+  private timers: Timer[] = [];
+  private pumping = false;
+  private readonly rand: () => number;
+
+  constructor({
+    start = 0,
+    seed = 1,
+  }: { start?: number; seed?: number } = {}) {
+    this.time = start;
+    this.rand = seededRandom(seed);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  random(): number {
+    return this.rand();
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const timer: Timer = {
+        at: this.time + Math.max(0, ms),
+        fn: resolve,
+      };
+      signal?.addEventListener(
+        "abort",
+        () => {
+          this.timers = this.timers.filter((t) => t !== timer);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+      this.timers.push(timer);
+      this.pump();
+    });
+  }
+
+  setInterval(fn: () => void, ms: number): () => void {
+    const timer: Timer = { at: this.time + ms, fn, every: ms };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter((t) => t !== timer);
+    };
+  }
+
+  /** move time forward by `ms`, firing every timer that falls due */
+  async advance(ms: number): Promise<void> {
+    const until = this.time + ms;
+    for (
+      let next = this.earliest();
+      next && next.at <= until;
+      next = this.earliest()
+    ) {
+      this.fire(next);
+      await idle();
+    }
+    this.time = until;
+  }
+
+  /** number of sleeps still waiting */
+  get pendingSleeps(): number {
+    return this.timers.filter((t) => t.every === undefined).length;
+  }
+
+  /* once the microtask queue drains, wake the earliest sleeper */
+  private pump(): void {
+    if (this.pumping) return;
+    this.pumping = true;
+    void idle().then(() => {
+      this.pumping = false;
+      if (!this.pendingSleeps) return;
+
+      const next = this.earliest();
+      if (next) this.fire(next);
+      this.pump();
+    });
+  }
+
+  private earliest(): Timer | undefined {
+    // Stable: equal deadlines fire in the order they were scheduled
+    return this.timers.reduce<Timer | undefined>(
+      (best, t) => (!best || t.at < best.at ? t : best),
+      undefined
+    );
+  }
+
+  private fire(timer: Timer): void {
+    this.time = Math.max(this.time, timer.at);
+    if (timer.every === undefined) {
+      this.timers = this.timers.filter((t) => t !== timer);
+    } else {
+      timer.at += timer.every;
+    }
+    timer.fn();
+  }
+}
+
+/** resolves after pending promise callbacks have run */
+function idle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,26 @@
+// src/utils/freshRead.ts
+
+/**
+ * Wrap `read` so every call resolves with a result read *after* the
+ * call was made, while calls that arrive together share one read. A
+ * call made during a read in flight waits for the next read, which
+ * every call queued meanwhile shares.
+ */
+export function freshReader<T>(
+  read: () => Promise<T>
+): () => Promise<T> {
+  let inFlight: Promise<unknown> = Promise.resolve();
+  let next: Promise<T> | undefined;
+
+  return () => {
+    next ??= inFlight
+      .catch(() => {}) // A failed read only fails its own callers
+      .then(() => {
+        next = undefined;
+        const started = read();
+        inFlight = started;
+        return started;
+      });
+    return next;
+  };
+}
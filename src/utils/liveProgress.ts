@@ -0,0 +1,232 @@
+// src/utils/liveProgress.ts
+
+import {
+  BuilderEvent,
+  PhaseLabel,
+} from "../orchestrator/MegaverseBuilder";
+import { Operation } from "../orchestrator/planReconciliation";
+import { Clock, systemClock } from "./clock";
+import { Logger, defaultLogger } from "./logger";
+import { objectType } from "./planReport";
+import { createProgressLogger } from "./progressLogger";
+
+/** the bits of a stream the live line needs (process.stderr fits) */
+export interface ProgressStream {
+  isTTY?: boolean;
+  write(chunk: string): unknown;
+}
+
+export interface LiveProgressOptions {
+  stream?: ProgressStream; // Where the live line goes (default stderr)
+  live?: boolean; // One updating line; defaults to `stream.isTTY`
+  logger?: Logger; // Log lines, and periodic progress when not live
+  clock?: Clock;
+  interval?: number; // Items between periodic lines (default 10)
+  windowMs?: number; // Throughput window for rate and ETA (default 10s)
+  redrawMs?: number; // Minimum time between redraws (default 100ms)
+}
+
+interface Phase {
+  label: PhaseLabel;
+  started: number;
+  total: Record<string, number>; // Per object type
+  done: Record<string, number>;
+  failed: number;
+  tick: () => void; // Periodic line, when not live
+}
+
+const CLEAR_LINE = "\r\x1b[2K";
+
+/**
+ * Progress of the builder's passes, fed by its `onEvent` hook. On a TTY
+ * one line is kept up to date with done/total per object type,
+ * concurrency, request rate, retries waiting and an ETA from recent
+ * throughput plus pending backoff. Elsewhere it falls back to the
+ * periodic `createProgressLogger` lines.
+ */
+export class LiveProgress {
+  /** logs through this clear the live line first and redraw it after */
+  readonly logger: Logger;
+
+  private readonly stream: ProgressStream;
+  private readonly live: boolean;
+  private readonly base: Logger;
+  private readonly clock: Clock;
+  private readonly interval: number;
+  private readonly windowMs: number;
+  private readonly redrawMs: number;
+
+  private phase?: Phase;
+  private concurrency?: number;
+  private settled: Array<{ at: number; requests: number }> = [];
+  private retrying = new Map<Operation, number>(); // → retry time
+  private drawn = false;
+  private lastDraw = -Infinity;
+
+  constructor(options: LiveProgressOptions = {}) {
+    this.stream = options.stream ?? process.stderr;
+    this.live = options.live ?? Boolean(this.stream.isTTY);
+    this.base = options.logger ?? defaultLogger;
+    this.clock = options.clock ?? systemClock;
+    this.interval = options.interval ?? 10;
+    this.windowMs = options.windowMs ?? 10_000;
+    this.redrawMs = options.redrawMs ?? 100;
+    this.logger = this.wrap(this.base);
+  }
+
+  /** pass as the builder's `onEvent` */
+  handle = (event: BuilderEvent): void => {
+    const now = this.clock.now();
+    switch (event.type) {
+      case "phase-start":
+        this.start(event.label, event.ops, now);
+        this.concurrency = event.concurrency;
+        break;
+      case "phase-end":
+        this.draw(true);
+        if (this.drawn) this.stream.write("\n");
+        this.drawn = false;
+        this.phase = undefined;
+        return;
+      case "op-start":
+        return;
+      case "op-end": {
+        this.retrying.delete(event.op);
+        this.settled.push({
+          at: now,
+          requests: event.op.kind === "replace" ? 2 : 1,
+        });
+        const phase = this.phase;
+        if (!phase) return;
+        const type = objectType(event.op);
+        phase.done[type] = (phase.done[type] ?? 0) + 1;
+        if (!event.ok) phase.failed++;
+        phase.tick();
+        break;
+      }
+      case "retry":
+        this.retrying.set(event.op, now + event.delayMs);
+        break;
+      case "concurrency":
+        this.concurrency = event.concurrency;
+        break;
+    }
+    this.draw();
+  };
+
+  /** the status line as it would be drawn now */
+  line(): string {
+    const phase = this.phase;
+    if (!phase) return "";
+    const now = this.clock.now();
+
+    const sum = (counts: Record<string, number>) =>
+      Object.values(counts).reduce((a, b) => a + b, 0);
+    const total = sum(phase.total);
+    const done = sum(phase.done);
+    const types = Object.entries(phase.total)
+      .map(([type, n]) => `${type} ${phase.done[type] ?? 0}/${n}`)
+      .join(" ");
+
+    // Throughput over the recent window (or the phase so far)
+    const span = Math.min(this.windowMs, now - phase.started);
+    const recent = this.settled.filter((s) => s.at > now - span);
+    const opsPerSec = span > 0 ? recent.length / (span / 1000) : 0;
+    const requestsPerSec =
+      span > 0
+        ? recent.reduce((n, s) => n + s.requests, 0) / (span / 1000)
+        : 0;
+
+    const backoff = Math.max(
+      0,
+      ...[...this.retrying.values()].map((at) => at - now)
+    );
+    const eta =
+      done >= total
+        ? "0s"
+        : opsPerSec > 0
+        ? duration(((total - done) / opsPerSec) * 1000 + backoff)
+        : "--";
+
+    return [
+      `⏳ ${phase.label} ${done}/${total}`,
+      types,
+      phase.failed ? `${phase.failed} failed` : "",
+      this.concurrency !== undefined
+        ? `${this.concurrency} workers`
+        : "",
+      `${requestsPerSec.toFixed(1)} req/s`,
+      this.retrying.size ? `${this.retrying.size} retrying` : "",
+      `ETA ${eta}`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  }
+
+  private start(label: PhaseLabel, ops: Operation[], now: number) {
+    const total: Record<string, number> = {};
+    for (const op of ops) {
+      const type = objectType(op);
+      total[type] = (total[type] ?? 0) + 1;
+    }
+    this.phase = {
+      label,
+      started: now,
+      total,
+      done: {},
+      failed: 0,
+      tick: this.live
+        ? () => {}
+        : createProgressLogger(
+            label,
+            ops.length,
+            this.interval,
+            this.base
+          ),
+    };
+    this.settled = this.settled.filter(
+      (s) => s.at > now - this.windowMs
+    );
+  }
+
+  private draw(force = false): void {
+    if (!this.live || !this.phase) return;
+    const now = this.clock.now();
+    if (!force && now - this.lastDraw < this.redrawMs) return;
+
+    this.stream.write(CLEAR_LINE + this.line());
+    this.drawn = true;
+    this.lastDraw = now;
+  }
+
+  private clear(): void {
+    if (!this.drawn) return;
+    this.stream.write(CLEAR_LINE);
+    this.drawn = false;
+  }
+
+  private wrap(inner: Logger): Logger {
+    const around =
+      (log: Logger["info"]): Logger["info"] =>
+      (message, fields) => {
+        this.clear();
+        log(message, fields);
+        this.draw(true);
+      };
+    return {
+      debug: around(inner.debug),
+      info: around(inner.info),
+      warn: around(inner.warn),
+      error: around(inner.error),
+      child: (fields) => this.wrap(inner.child(fields)),
+    };
+  }
+}
+
+/** 65000 → "1m05s" */
+function duration(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m ? `${m}m${String(s).padStart(2, "0")}s` : `${s}s`;
+}
@@ -0,0 +1,99 @@
+// src/utils/logger.ts
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["pretty", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/** context attached to a line: operation, row, column, attempt, … */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** a logger that adds `fields` to every line it writes */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  format?: LogFormat; // "pretty" for people, "json" (one object per line) for CI
+  level?: LogLevel; // Drop lines below this level
+  stderr?: boolean; // Keep stdout free, e.g. for --json results
+  now?: () => number; // Timestamp source for JSON lines
+}
+
+/**
+ * Logger writing through the console. Pretty lines are just the message
+ * (fields are for machines); JSON lines carry time, level, message and
+ * every field, so a run can be grepped or fed to a dashboard.
+ */
+export function createLogger(
+  options: LoggerOptions = {},
+  context: LogFields = {}
+): Logger {
+  const {
+    format = "pretty",
+    level = "info",
+    stderr = false,
+    now = Date.now,
+  } = options;
+  const threshold = LOG_LEVELS.indexOf(level);
+
+  const write = (
+    lineLevel: LogLevel,
+    message: string,
+    fields: LogFields = {}
+  ) => {
+    if (LOG_LEVELS.indexOf(lineLevel) < threshold) return;
+
+    const line =
+      format === "json"
+        ? JSON.stringify(
+            {
+              time: new Date(now()).toISOString(),
+              level: lineLevel,
+              msg: message,
+              ...context,
+              ...fields,
+            },
+            errorReplacer
+          )
+        : message;
+
+    if (lineLevel === "error") console.error(line);
+    else if (lineLevel === "warn") console.warn(line);
+    else if (stderr) console.error(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) =>
+      createLogger(options, { ...context, ...fields }),
+  };
+}
+
+/** errors stringify to `{}`; keep what is useful about them */
+function errorReplacer(_key: string, value: unknown): unknown {
+  if (!(value instanceof Error)) return value;
+  const { status } = value as { status?: number };
+  return { name: value.name, message: value.message, status };
+}
+
+/** pretty, info and up: what the CLI printed before logging had levels */
+export const defaultLogger: Logger = createLogger();
+
+/** drops everything, for tests and embedding */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
@@ -0,0 +1,21 @@
+// src/utils/mapFile.ts
+
+import { readFileSync, writeFileSync } from "fs";
+import { Cell } from "../domain/models";
+import { parseMap } from "../domain/parseMap";
+
+/**
+ * Read a map file written as JSON (`string[][]` of goal tokens or
+ * `{ "goal": string[][] }`) or as ASCII art, see `parseMap`
+ */
+export function readMapFile(file: string): Cell[][] {
+  return parseMap(readFileSync(file, "utf8"), file);
+}
+
+/**
+ * Save a map as a JSON array of token rows, one row per line
+ */
+export function writeMapFile(file: string, map: string[][]): void {
+  const rows = map.map((row) => `  ${JSON.stringify(row)}`);
+  writeFileSync(file, `[\n${rows.join(",\n")}\n]\n`);
+}
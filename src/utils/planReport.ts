@@ -0,0 +1,103 @@
+// src/utils/planReport.ts
+
+import { readFileSync } from "fs";
+import { bodyFromToken } from "../domain/models";
+import {
+  Operation,
+  OperationKind,
+  isBodyToken,
+} from "../orchestrator/planReconciliation";
+
+export type PlanSummary = Record<
+  string,
+  Record<OperationKind, number>
+>;
+
+/**
+ * Object type an operation acts on ("polyanet", "soloon", "cometh").
+ * Replacements are counted against the object the goal asks for.
+ */
+export function objectType(op: Operation): string {
+  return bodyFromToken(op.body).kind;
+}
+
+/**
+ * Count creates, deletes and replacements per object type
+ */
+export function summarizePlan(plan: Operation[]): PlanSummary {
+  const summary: PlanSummary = {};
+  for (const op of plan) {
+    const type = objectType(op);
+    summary[type] ??= { create: 0, delete: 0, replace: 0 };
+    summary[type][op.kind]++;
+  }
+  return summary;
+}
+
+/** one saved operation, checked field by field */
+function isOperation(op: unknown): op is Operation {
+  const { kind, row, column, body, previous } = (op ?? {}) as Record<
+    string,
+    unknown
+  >;
+  return (
+    (kind === "create" || kind === "delete" || kind === "replace") &&
+    Number.isInteger(row) &&
+    (row as number) >= 0 &&
+    Number.isInteger(column) &&
+    (column as number) >= 0 &&
+    typeof body === "string" &&
+    isBodyToken(body) &&
+    (kind !== "replace" ||
+      (typeof previous === "string" && isBodyToken(previous)))
+  );
+}
+
+/**
+ * Read the `changes` of a plan saved by `plan out.json`; throws on a
+ * file that isn't one
+ */
+export function readPlanFile(file: string): Operation[] {
+  let changes: unknown;
+  try {
+    changes = JSON.parse(readFileSync(file, "utf8"))?.changes;
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(changes)) {
+    throw new Error(`${file}: no "changes" list, not a saved plan`);
+  }
+  const bad = changes.findIndex((op) => !isOperation(op));
+  if (bad !== -1) {
+    throw new Error(
+      `${file}: change ${bad} is not a valid operation: ${JSON.stringify(
+        changes[bad]
+      )}`
+    );
+  }
+  return changes;
+}
+
+/**
+ * Print the summary followed by one line per affected cell
+ */
+export function printPlan(plan: Operation[]): void {
+  if (!plan.length) {
+    console.log(
+      "🎉 Universe already matches the goal. Nothing to do."
+    );
+    return;
+  }
+
+  console.log(`📋 Plan: ${plan.length} cells to change`);
+  for (const [type, counts] of Object.entries(summarizePlan(plan))) {
+    console.log(
+      `   ${type}: +${counts.create} create, -${counts.delete} delete, ~${counts.replace} replace`
+    );
+  }
+
+  for (const { kind, row, column, body, previous } of plan) {
+    const what = kind === "replace" ? `${previous} → ${body}` : body;
+    console.log(`   [${row},${column}] ${kind} ${what}`);
+  }
+}
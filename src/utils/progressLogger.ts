@@ -1,15 +1,19 @@
+import { Logger, defaultLogger } from "./logger";
+
 /**
  * Creates a function to track and display progress
  *
  * @param label    What you're tracking ("created", "deleted", etc.)
  * @param total    Total number of items to process
  * @param interval How often to log progress (e.g. 10 = every 10 items)
+ * @param logger   Where progress lines go
  * @returns        A function to call after each item is processed
  */
 export function createProgressLogger(
   label: string,
   total: number,
-  interval = 10
+  interval = 10,
+  logger: Logger = defaultLogger
 ): () => void {
   let count = 0;
 
@@ -18,7 +22,11 @@ export function createProgressLogger(
     // Log progress at intervals or when complete
     if (count % interval === 0 || count === total) {
       const percent = Math.round((count / total) * 100);
-      console.log(`🚀 ${label}: ${count}/${total} (${percent}%)`);
+      logger.info(`🚀 ${label}: ${count}/${total} (${percent}%)`, {
+        label,
+        done: count,
+        total,
+      });
     }
   };
 }
@@ -0,0 +1,164 @@
+// src/utils/rateLimiter.ts
+
+import { Clock, systemClock } from "./clock";
+import { Logger, defaultLogger } from "./logger";
+import {
+  AimdController,
+  AimdOptions,
+  ResponseSample,
+} from "./aimdController";
+
+/** how the sustained rate adapts; defaults suit the public API */
+export type RateTuning = Partial<Omit<AimdOptions, "initial">> & {
+  logger?: Logger; // Where rate changes are reported
+};
+
+/** running totals of everything that went through a limiter */
+export interface LimiterTotals {
+  requests: number; // Let through: reads and writes alike
+  waitingMs: number; // Spent waiting for a slot or a server-asked pause
+  inFlightMs: number; // Send to response, as reported to `record`
+  rateLimited: number; // 429 responses reported to `record`
+}
+
+/**
+ * Token bucket shared by every request of a run. Its refill rate is
+ * steered by an `AimdController` fed with every response, so a slowdown
+ * learned in one phase still applies in the next and is won back once
+ * the server is quiet again.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private maxTokens: number;
+  private readonly control: AimdController;
+  private readonly clock: Clock;
+  private readonly log: Logger;
+  private granted = 0;
+  private waitingMs = 0;
+  private inFlightMs = 0;
+  private rateLimited = 0;
+
+  constructor(
+    maxRequests = 6,
+    requestsPerSecond = 1.5,
+    tuning: RateTuning = {}
+  ) {
+    const { logger = defaultLogger, ...aimd } = tuning;
+    this.clock = tuning.clock ?? systemClock;
+    this.log = logger;
+    this.tokens = maxRequests;
+    this.lastRefill = this.clock.now();
+    this.maxTokens = maxRequests;
+    this.control = new AimdController({
+      min: Math.min(0.2, requestsPerSecond),
+      max: Math.max(5, requestsPerSecond),
+      increase: 0.25,
+      decrease: 0.5,
+      quietPeriodMs: 5_000,
+      ...aimd,
+      initial: requestsPerSecond,
+      clock: this.clock,
+    });
+  }
+
+  /** current sustained rate */
+  get requestsPerSecond(): number {
+    return this.control.limit;
+  }
+
+  /** requests let through so far: reads and writes alike */
+  get requestsSent(): number {
+    return this.granted;
+  }
+
+  /** totals so far; a run report takes the difference over the run */
+  get totals(): LimiterTotals {
+    return {
+      requests: this.granted,
+      waitingMs: this.waitingMs,
+      inFlightMs: this.inFlightMs,
+      rateLimited: this.rateLimited,
+    };
+  }
+
+  /** recent request latency percentile (0–100) */
+  latencyPercentile(p: number): number {
+    return this.control.latencyPercentile(p);
+  }
+
+  /** wait for a request slot; rejects (and gives it back) on abort */
+  async getToken(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const started = this.clock.now();
+    try {
+      await this.take(signal);
+    } finally {
+      this.waitingMs += this.clock.now() - started;
+    }
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    // The server asked everyone to wait (Retry-After, empty budget)
+    const paused = this.control.pausedForMs();
+    if (paused > 0) await this.clock.sleep(paused, signal);
+
+    this.refill();
+
+    if (this.tokens >= 1) {
+      // We have tokens available, use one
+      this.tokens -= 1;
+      this.granted++;
+      return;
+    }
+
+    // Reserve the token now so concurrent callers queue up behind us
+    const waitTime = Math.ceil((1 - this.tokens) / this.refillRate());
+    this.tokens -= 1;
+    try {
+      await this.clock.sleep(waitTime, signal);
+    } catch (err) {
+      this.tokens += 1;
+      throw err;
+    }
+    this.granted++;
+  }
+
+  /** feed a response (or timeout) back into the rate control */
+  record(sample: ResponseSample): void {
+    this.refill(); // settle tokens earned at the old rate
+    this.inFlightMs += sample.latencyMs ?? 0;
+    if (sample.status === 429) this.rateLimited++;
+
+    const before = this.control.limit;
+    const after = this.control.record(sample);
+    const fields = {
+      requestsPerSecond: after,
+      status: sample.status,
+    };
+    if (after < before) {
+      this.log.info(
+        `⚙️ Slowing down: ${after.toFixed(2)} req/sec`,
+        fields
+      );
+    } else if (after > before) {
+      this.log.info(
+        `⚙️ Speeding up: ${after.toFixed(2)} req/sec`,
+        fields
+      );
+    }
+  }
+
+  private refillRate(): number {
+    return this.control.limit / 1000; // tokens per millisecond
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    const timePassed = now - this.lastRefill;
+    const newTokens = timePassed * this.refillRate();
+
+    this.tokens = Math.min(this.maxTokens, this.tokens + newTokens);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,118 @@
+// src/utils/renderMap.ts
+
+import { CurrentCell } from "../api/MegaverseApiClient";
+import { Cell, glyphs } from "../domain/models";
+import { ASCII_CELLS } from "../domain/parseMap";
+import {
+  OperationKind,
+  planReconciliation,
+  toToken,
+} from "../orchestrator/planReconciliation";
+
+export interface RenderOptions {
+  fancy?: boolean; // Emoji + ANSI colors (TTY) instead of plain ASCII
+}
+
+/* from the body registry, like the ASCII letters */
+const EMOJI: Record<string, string> = Object.fromEntries([
+  ["SPACE", "· "],
+  ...glyphs("emoji"),
+]);
+
+const ASCII: Record<string, string> = Object.fromEntries(
+  Object.entries(ASCII_CELLS).map(([ch, cell]) => [cell, ch])
+);
+
+/* missing = goal wants it, extra = should go, wrong = replace -------- */
+const DIFF_MARK: Record<OperationKind, string> = {
+  create: "+",
+  delete: "-",
+  replace: "~",
+};
+const DIFF_COLOR: Record<OperationKind, string> = {
+  create: "\x1b[42m", // green background: missing
+  delete: "\x1b[41m", // red background: extra
+  replace: "\x1b[43m", // yellow background: wrong
+};
+const RESET = "\x1b[0m";
+
+/** should output use emoji/ANSI? (TTY and NO_COLOR unset) */
+export function isFancyOutput(
+  stream: { isTTY?: boolean } = process.stdout
+): boolean {
+  return Boolean(stream.isTTY) && !process.env.NO_COLOR;
+}
+
+function glyph(token: string, fancy: boolean): string {
+  const table: Record<string, string | undefined> = fancy
+    ? EMOJI
+    : ASCII;
+  return table[token] ?? (fancy ? "❓" : "?");
+}
+
+/**
+ * Render a map of goal tokens, one line per row
+ */
+export function renderMap(
+  map: string[][],
+  { fancy = false }: RenderOptions = {}
+): string {
+  return map
+    .map((row) =>
+      row.map((token) => glyph(token, fancy)).join(fancy ? "" : " ")
+    )
+    .join("\n");
+}
+
+/** current map → goal tokens, for rendering */
+export function currentToTokens(current: CurrentCell[][]): Cell[][] {
+  return current.map((row) =>
+    row.map((cell): Cell => toToken(cell) ?? "SPACE")
+  );
+}
+
+/**
+ * Goal | current | diff side by side. The diff column marks missing
+ * (+), extra (-) and wrong (~) cells; in fancy mode the offending
+ * current cells are highlighted as well.
+ */
+export function renderDiff(
+  goal: string[][],
+  current: CurrentCell[][],
+  { fancy = false }: RenderOptions = {}
+): string {
+  const kinds = new Map<string, OperationKind>();
+  for (const op of planReconciliation(goal, current)) {
+    kinds.set(`${op.row},${op.column}`, op.kind);
+  }
+
+  const sep = fancy ? "" : " ";
+  const have = currentToTokens(current);
+  const lines = goal.map((row, r) => {
+    const goalCells = row.map((token) => glyph(token, fancy));
+    const currentCells = row.map((_, c) => {
+      const cell = glyph(have[r]?.[c] ?? "SPACE", fancy);
+      const kind = kinds.get(`${r},${c}`);
+      return fancy && kind
+        ? `${DIFF_COLOR[kind]}${cell}${RESET}`
+        : cell;
+    });
+    const marks = row.map((_, c) => {
+      const kind = kinds.get(`${r},${c}`);
+      return kind ? DIFF_MARK[kind] : ".";
+    });
+    return [
+      goalCells.join(sep),
+      currentCells.join(sep),
+      marks.join(" "),
+    ].join("  |  ");
+  });
+
+  const counts = { create: 0, delete: 0, replace: 0 };
+  for (const kind of kinds.values()) counts[kind]++;
+  lines.push(
+    "",
+    `goal | current | diff — ${counts.create} missing (+), ${counts.delete} extra (-), ${counts.replace} wrong (~)`
+  );
+  return lines.join("\n");
+}
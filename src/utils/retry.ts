@@ -1,6 +1,9 @@
 // src/utils/retry.ts
 
-import { sleep } from "./sleep";
+import { RateLimitedError } from "../api/errors";
+import { Clock, systemClock } from "./clock";
+import { Logger, defaultLogger } from "./logger";
+import { parseRetryAfter } from "./aimdController";
 
 export interface RetryOptions {
   retries?: number; // Maximum number of retries
@@ -10,29 +13,38 @@ export interface RetryOptions {
   shouldRetry?: (err: any) => boolean; // Function to decide if we should retry
   jitter?: boolean; // Add randomness to avoid all clients retrying at once
   onRetry?: (err: any, attempt: number, delay: number) => void; // Callback
+  clock?: Clock; // Time, sleep and jitter source (defaults to real time)
+  logger?: Logger; // Where retries and give-ups are reported
+  signal?: AbortSignal; // Stops retrying, and cuts a pending backoff short
 }
 
 /**
  * Get delay info from response headers if available
  */
-function getDelayFromHeaders(err: any, defaultDelay: number): number {
+function getDelayFromHeaders(
+  err: any,
+  defaultDelay: number,
+  clock: Clock,
+  logger: Logger
+): number {
   // Check if we have a Retry-After header
   try {
-    if (err.headers && err.headers.get) {
-      const retryAfter = err.headers.get("retry-after");
-      if (retryAfter) {
-        // Convert seconds to milliseconds or parse date
-        if (/^\d+$/.test(retryAfter)) {
-          return parseInt(retryAfter, 10) * 1000;
-        } else {
-          const retryDate = new Date(retryAfter).getTime();
-          return Math.max(0, retryDate - Date.now());
-        }
-      }
+    const retryAfter: string | null | undefined =
+      err.headers?.get?.("retry-after");
+    if (retryAfter) {
+      // Seconds or an HTTP date; anything else gives undefined
+      const delay = parseRetryAfter(retryAfter, clock.now());
+      if (delay !== undefined) return delay;
+      logger.warn(
+        `Could not parse Retry-After "${retryAfter}", using default delay`,
+        { retryAfter, delayMs: defaultDelay }
+      );
     }
   } catch (e) {
     // If header parsing fails, use default
-    console.warn("Could not parse header, using default delay");
+    logger.warn("Could not parse header, using default delay", {
+      error: e,
+    });
   }
 
   return defaultDelay;
@@ -51,6 +63,8 @@ function calculateDelay(
     minTimeout = 1000,
     maxTimeout = 30000,
     jitter = true,
+    clock = systemClock,
+    logger = defaultLogger,
   } = options;
 
   // Start with basic exponential backoff
@@ -60,15 +74,20 @@ function calculateDelay(
   delay = Math.min(delay, maxTimeout);
 
   // For rate limit errors (429), use header or longer delay
-  if (err.message && err.message.includes("429")) {
-    const rateDelay = getDelayFromHeaders(err, delay * 2);
+  if (err instanceof RateLimitedError) {
+    const rateDelay = getDelayFromHeaders(
+      err,
+      delay * 2,
+      clock,
+      logger
+    );
     delay = Math.min(rateDelay, maxTimeout);
   }
 
   // Add jitter (randomness) to prevent all clients retrying at once
   if (jitter) {
     // Add +/- 30% random variation
-    const jitterAmount = 0.7 + Math.random() * 0.6; // 0.7 to 1.3
+    const jitterAmount = 0.7 + clock.random() * 0.6; // 0.7 to 1.3
     delay = Math.floor(delay * jitterAmount);
   }
 
@@ -82,7 +101,14 @@ export async function retry<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
-  const { retries = 8, shouldRetry = () => true, onRetry } = options;
+  const {
+    retries = 8,
+    shouldRetry = () => true,
+    onRetry,
+    clock = systemClock,
+    logger = defaultLogger,
+    signal,
+  } = options;
   let attempt = 0;
 
   while (true) {
@@ -90,13 +116,17 @@ export async function retry<T>(
       return await fn();
     } catch (err: any) {
       attempt++;
+      // A cancelled run ends here: no more attempts, no log noise
+      if (signal?.aborted) throw err;
 
       // Stop retrying if we've reached max retries or shouldRetry returns false
       if (attempt > retries || !shouldRetry(err)) {
         if (attempt > retries) {
-          console.error(
-            `❌ Max retries (${retries}) reached. Last error:`,
-            err.message || err
+          logger.error(
+            `❌ Max retries (${retries}) reached. Last error: ${
+              err.message || err
+            }`,
+            { attempt: attempt - 1, error: err }
           );
         }
         throw err;
@@ -106,17 +136,20 @@ export async function retry<T>(
       const delay = calculateDelay(attempt, err, options);
 
       // Log the retry
-      if (err.message && err.message.includes("429")) {
-        console.warn(
+      const fields = { attempt, delayMs: delay, error: err };
+      if (err instanceof RateLimitedError) {
+        logger.warn(
           `⏳ Rate limited! Retry ${attempt}/${retries} in ${Math.round(
             delay / 1000
-          )}s`
+          )}s`,
+          fields
         );
       } else {
-        console.warn(
+        logger.warn(
           `⚠ Retry ${attempt}/${retries} in ${Math.round(
             delay / 1000
-          )}s: ${err.message || err}`
+          )}s: ${err.message || err}`,
+          fields
         );
       }
 
@@ -126,7 +159,7 @@ export async function retry<T>(
       }
 
       // Wait before retrying
-      await sleep(delay);
+      await clock.sleep(delay, signal);
     }
   }
 }
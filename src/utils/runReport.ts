@@ -0,0 +1,237 @@
+// src/utils/runReport.ts
+
+import { Operation } from "../orchestrator/planReconciliation";
+import { Position } from "../domain/models";
+import { Clock, systemClock } from "./clock";
+import { LimiterTotals } from "./rateLimiter";
+import { Logger, defaultLogger } from "./logger";
+import { objectType } from "./planReport";
+
+export interface OperationCounts {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface RunReport {
+  action: string; // "build", "restore", "apply", "resume" or "clean"
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  operations: Record<string, OperationCounts>; // Per object type
+  retries: number; // Attempts repeated after a retryable error
+  rateLimited: number; // 429 responses seen
+  sleepingMs: number; // Batch pauses, retry backoff and waits for the limiter
+  inFlightMs: number; // Time spent in API calls, summed over workers
+  requests: number; // API calls sent, map reads included when counted at the limiter
+  requestsPerSecond: number; // `requests` over the whole run
+  concurrency: Array<{ atMs: number; concurrency: number }>; // Timeline
+  cancelled: boolean; // Interrupted: `wrongCells` is what was left to do
+  wrongCells: Operation[]; // Still differ from the goal at the end
+  skipped: Position[]; // Unknown to the map reads, so left alone
+}
+
+/**
+ * Counters a builder run feeds as it goes; `toReport` turns them into
+ * the summary printed (and optionally saved) at the end
+ */
+export class RunMetrics {
+  private readonly started: number;
+  private finished?: number;
+  private readonly operations: Record<string, OperationCounts> = {};
+  private readonly timeline: RunReport["concurrency"] = [];
+  private retries = 0;
+  private rateLimited = 0;
+  private sleepingMs = 0;
+  private inFlightMs = 0;
+  private requests = 0;
+  private readonly atStart?: LimiterTotals;
+  private atEnd?: LimiterTotals;
+  private wrongCells: Operation[] = [];
+  private skipped: Position[] = [];
+  private cancelled = false;
+
+  /**
+   * `limiterTotals` reads the running totals of the limiter every
+   * request goes through, so map reads count too and waits for a slot
+   * count as sleeping rather than in flight. Without it only what is
+   * reported through `sent` and `rateLimitHit` is counted.
+   */
+  constructor(
+    readonly action: string,
+    private readonly clock: Clock = systemClock,
+    private readonly limiterTotals?: () => LimiterTotals
+  ) {
+    this.started = clock.now();
+    this.atStart = limiterTotals?.();
+  }
+
+  /** an operation is about to run (once, however often it is retried) */
+  attempted(op: Operation): void {
+    this.countsFor(op).attempted++;
+  }
+
+  /** the operation finished, for good or bad */
+  settled(op: Operation, ok: boolean): void {
+    this.countsFor(op)[ok ? "succeeded" : "failed"]++;
+  }
+
+  /** `count` API calls that together took `ms` */
+  sent(count: number, ms: number): void {
+    this.requests += count;
+    this.inFlightMs += ms;
+  }
+
+  /** from `RetryOptions.onRetry`: another attempt after `delayMs` */
+  retried(delayMs: number): void {
+    this.retries++;
+    this.sleepingMs += delayMs;
+  }
+
+  rateLimitHit(): void {
+    this.rateLimited++;
+  }
+
+  slept(ms: number): void {
+    this.sleepingMs += ms;
+  }
+
+  concurrencyChanged(concurrency: number): void {
+    this.timeline.push({
+      atMs: this.clock.now() - this.started,
+      concurrency,
+    });
+  }
+
+  /**
+   * close the run with what verification found still wrong, or with
+   * what was never done if it was `cancelled`, and the unknown cells
+   * it `skipped`
+   */
+  finish(
+    wrongCells: Operation[],
+    cancelled = false,
+    skipped: Position[] = []
+  ): void {
+    this.finished = this.clock.now();
+    this.atEnd = this.limiterTotals?.();
+    this.wrongCells = wrongCells;
+    this.cancelled = cancelled;
+    this.skipped = skipped;
+  }
+
+  /** snapshot of the run so far (or of the whole run once finished) */
+  toReport(): RunReport {
+    const durationMs =
+      (this.finished ?? this.clock.now()) - this.started;
+    const { requests, inFlightMs, rateLimited, waitingMs } =
+      this.fromLimiter() ?? {
+        requests: this.requests,
+        inFlightMs: this.inFlightMs,
+        rateLimited: this.rateLimited,
+        waitingMs: 0,
+      };
+    return {
+      action: this.action,
+      startedAt: new Date(this.started).toISOString(),
+      durationMs,
+      operations: structuredClone(this.operations),
+      retries: this.retries,
+      rateLimited,
+      sleepingMs: this.sleepingMs + waitingMs,
+      inFlightMs,
+      requests,
+      requestsPerSecond: durationMs
+        ? requests / (durationMs / 1000)
+        : 0,
+      concurrency: [...this.timeline],
+      cancelled: this.cancelled,
+      wrongCells: [...this.wrongCells],
+      skipped: [...this.skipped],
+    };
+  }
+
+  /** what went through the limiter during the run, if it is known */
+  private fromLimiter(): LimiterTotals | undefined {
+    if (!this.limiterTotals || !this.atStart) return undefined;
+    const end = this.atEnd ?? this.limiterTotals();
+    const start = this.atStart;
+    return {
+      requests: end.requests - start.requests,
+      waitingMs: end.waitingMs - start.waitingMs,
+      inFlightMs: end.inFlightMs - start.inFlightMs,
+      rateLimited: end.rateLimited - start.rateLimited,
+    };
+  }
+
+  private countsFor(op: Operation): OperationCounts {
+    return (this.operations[objectType(op)] ??= {
+      attempted: 0,
+      succeeded: 0,
+      failed: 0,
+    });
+  }
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Log the report: totals first, then one line per object type and
+ * per cell that is still wrong
+ */
+export function printReport(
+  report: RunReport,
+  logger: Logger = defaultLogger
+): void {
+  logger.info(
+    `📊 ${report.action} report: ${seconds(report.durationMs)}, ${
+      report.requests
+    } requests (${report.requestsPerSecond.toFixed(2)} req/sec)`,
+    { report }
+  );
+  for (const [type, c] of Object.entries(report.operations)) {
+    logger.info(
+      `   ${type}: ${c.attempted} attempted, ${c.succeeded} succeeded, ${c.failed} failed`
+    );
+  }
+  logger.info(
+    `   retries: ${report.retries}, rate limited: ${report.rateLimited}`
+  );
+  logger.info(
+    `   time: ${seconds(report.sleepingMs)} sleeping, ${seconds(
+      report.inFlightMs
+    )} in flight`
+  );
+  if (report.concurrency.length) {
+    logger.info(
+      `   concurrency: ${report.concurrency
+        .map((c) => c.concurrency)
+        .join(" → ")}`
+    );
+  }
+
+  if (report.cancelled) {
+    logger.warn(
+      `   ✋ Interrupted, ${report.wrongCells.length} operations left:`
+    );
+  } else if (!report.wrongCells.length) {
+    if (!report.skipped.length) {
+      logger.info("   ✅ Every cell matches.");
+      return;
+    }
+  } else {
+    logger.warn(
+      `   ❌ ${report.wrongCells.length} cells still wrong:`
+    );
+  }
+  for (const { kind, row, column, body } of report.wrongCells) {
+    logger.warn(`   [${row},${column}] needs ${kind} ${body}`);
+  }
+  if (report.skipped.length) {
+    logger.warn(
+      `   ⏭️ ${report.skipped.length} unknown cells left alone:`
+    );
+  }
+  for (const { row, column } of report.skipped) {
+    logger.warn(`   [${row},${column}]`);
+  }
+}
@@ -1,2 +1,17 @@
-export const sleep = (ms: number) =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Resolves after `ms`; rejects with `signal.reason` as soon as `signal`
+ * aborts, so a pending wait never holds up a shutdown
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
@@ -1,13 +1,25 @@
 import {
   MegaverseApiClient,
   ApiError,
+  BadRequestError,
+  DEFAULT_BASE_URL,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  RequestTimeoutError,
+  ServerError,
+  InvalidResponseError,
+  isRetryable,
+  mayHaveApplied,
 } from "../../src/api/MegaverseApiClient";
+import { RateLimiter } from "../../src/utils/rateLimiter";
 
 describe("MegaverseApiClient", () => {
   const candidateId = "test-candidate-id";
   let client: MegaverseApiClient;
 
   beforeEach(() => {
+    delete process.env.MEGAVERSE_BASE_URL;
     client = new MegaverseApiClient(candidateId);
 
     // Reset and prepare the fetch mock
@@ -37,7 +49,8 @@ describe("MegaverseApiClient", () => {
 
       // Validate request
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining("/map/test-candidate-id/goal")
+        expect.stringContaining("/map/test-candidate-id/goal"),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
 
       // Validate response
@@ -54,7 +67,8 @@ describe("MegaverseApiClient", () => {
 
       await expect(client.getGoalMap()).rejects.toThrow(ApiError);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining("/map/test-candidate-id/goal")
+        expect.stringContaining("/map/test-candidate-id/goal"),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
     });
   });
@@ -89,6 +103,7 @@ describe("MegaverseApiClient", () => {
     });
 
     test("should throw ApiError on failed request", async () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
       // Mock error response
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -143,6 +158,59 @@ describe("MegaverseApiClient", () => {
     });
   });
 
+  describe("createBody / deleteBody", () => {
+    test("should send each registered body to its resource", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+
+      await client.createBody(1, 2, {
+        kind: "cometh",
+        direction: "left",
+      });
+      await client.deleteBody(1, 2, "soloon");
+
+      const [[postUrl, post], [deleteUrl, del]] = (
+        global.fetch as jest.Mock
+      ).mock.calls;
+      expect(postUrl).toMatch(/\/comeths$/);
+      expect(JSON.parse(post.body)).toEqual({
+        candidateId,
+        row: 1,
+        column: 2,
+        direction: "left",
+      });
+      expect(deleteUrl).toMatch(/\/soloons$/);
+      expect(del.method).toBe("DELETE");
+      expect(JSON.parse(del.body)).toEqual({
+        candidateId,
+        row: 1,
+        column: 2,
+      });
+    });
+  });
+
+  describe("after the signal aborts", () => {
+    test("should drop new writes unless told to finish them", async () => {
+      const controller = new AbortController();
+      const aborting = new MegaverseApiClient(candidateId, {
+        signal: controller.signal,
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+      controller.abort();
+
+      await expect(
+        aborting.createBody(0, 0, { kind: "polyanet" })
+      ).rejects.toThrow();
+      await aborting.createBody(
+        0,
+        0,
+        { kind: "polyanet" },
+        { evenIfAborted: true }
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("delete operations", () => {
     test("should call DELETE API with correct parameters", async () => {
       // Mock successful response
@@ -162,4 +230,259 @@ describe("MegaverseApiClient", () => {
       );
     });
   });
+
+  describe("configuration", () => {
+    const ok = { ok: true, json: jest.fn().mockResolvedValue({}) };
+
+    test("should use the public API by default", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(ok);
+
+      await client.createPolyanet(0, 0);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `${DEFAULT_BASE_URL}/polyanets`,
+        expect.any(Object)
+      );
+    });
+
+    test("should read the base URL from MEGAVERSE_BASE_URL", async () => {
+      process.env.MEGAVERSE_BASE_URL = "http://localhost:8080/api/";
+      (global.fetch as jest.Mock).mockResolvedValueOnce(ok);
+
+      await new MegaverseApiClient(candidateId).createPolyanet(0, 0);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://localhost:8080/api/polyanets",
+        expect.any(Object)
+      );
+      delete process.env.MEGAVERSE_BASE_URL;
+    });
+
+    test("should prefer the baseUrl option and injected transport", async () => {
+      process.env.MEGAVERSE_BASE_URL = "http://ignored";
+      const transport = jest.fn().mockResolvedValue(ok);
+      const custom = new MegaverseApiClient(candidateId, {
+        baseUrl: "https://staging.example/api",
+        fetch: transport,
+      });
+
+      await custom.deleteSoloon(1, 2);
+
+      expect(transport).toHaveBeenCalledWith(
+        "https://staging.example/api/soloons",
+        expect.objectContaining({ method: "DELETE" })
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+      delete process.env.MEGAVERSE_BASE_URL;
+    });
+
+    test("should abort requests that exceed the timeout", async () => {
+      // Never answers until the client aborts the request
+      const hanging = jest.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) =>
+            init?.signal?.addEventListener("abort", () =>
+              reject(new Error("aborted"))
+            )
+          )
+      );
+      const slow = new MegaverseApiClient(candidateId, {
+        fetch: hanging,
+        timeoutMs: 20,
+      });
+
+      await expect(slow.getCurrentMap()).rejects.toThrow(
+        RequestTimeoutError
+      );
+      await expect(slow.getCurrentMap()).rejects.toThrow(
+        "Current map request timed out after 20ms"
+      );
+    });
+  });
+
+  describe("response validation", () => {
+    const answering = (body: unknown, options = {}) =>
+      new MegaverseApiClient(candidateId, {
+        fetch: jest.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: async () => body,
+        }),
+        ...options,
+      });
+
+    test("should reject a ragged goal and unknown cell types", async () => {
+      const ragged = answering({
+        goal: [["SPACE", "POLYANET"], ["SPACE"]],
+      });
+      await expect(ragged.getGoalMap()).rejects.toThrow(
+        "Goal map request returned an invalid response:\n  goal[1]: has 1 cells, expected 2"
+      );
+
+      const odd = answering({
+        map: { content: [[null, { type: 7 }]] },
+      });
+      await expect(odd.getCurrentMap()).rejects.toThrow(
+        InvalidResponseError
+      );
+      await expect(odd.getCurrentMap()).rejects.toThrow(
+        "map.content[0][1].type: unknown cell type 7"
+      );
+    });
+
+    test("should skip and report unknown tokens when asked to", async () => {
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        child: jest.fn(),
+      };
+      const client = answering(
+        { goal: [["POLYANET", "GREEN_SOLOON"]] },
+        { unknownTokens: "skip", logger }
+      );
+
+      const goal = await client.getGoalMap();
+      expect([...goal]).toEqual([["POLYANET", "SPACE"]]);
+      expect(goal.skipped).toEqual([{ row: 0, column: 1 }]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠ Goal map request: read 1 unknown entries as empty (goal[0][1]: unknown token "GREEN_SOLOON")',
+        { skipped: [expect.objectContaining({ path: "goal[0][1]" })] }
+      );
+    });
+
+    test("should still fail on malformed cells under skip", async () => {
+      const client = answering(
+        { map: { content: [[{ color: "red" }]] } },
+        { unknownTokens: "skip" }
+      );
+
+      await expect(client.getCurrentMap()).rejects.toThrow(
+        "map.content[0][0].type: expected an integer, got undefined"
+      );
+    });
+  });
+
+  describe("errors", () => {
+    const failing = (status: number, body: string) =>
+      new MegaverseApiClient(candidateId, {
+        fetch: jest.fn().mockResolvedValue({
+          ok: false,
+          status,
+          headers: new Headers(),
+          text: async () => body,
+        }),
+      });
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    test.each([
+      [429, RateLimitedError, true, false],
+      [500, ServerError, true, true],
+      [503, ServerError, true, true],
+      [404, NotFoundError, false, true],
+      [400, BadRequestError, false, true],
+      [422, BadRequestError, false, true],
+    ])(
+      "should map %i to %p",
+      async (status, type, retryable, maybe) => {
+        const err = await failing(status, "nope")
+          .createPolyanet(0, 0)
+          .catch((e) => e);
+
+        expect(err).toBeInstanceOf(type);
+        expect(err).toBeInstanceOf(ApiError);
+        expect(err.status).toBe(status);
+        expect(isRetryable(err)).toBe(retryable);
+        expect(mayHaveApplied(err)).toBe(maybe);
+      }
+    );
+
+    test("should parse a JSON error body", async () => {
+      const err = await failing(400, '{"error":"row out of range"}')
+        .createPolyanet(99, 0)
+        .catch((e) => e);
+
+      expect(err.body).toEqual({ error: "row out of range" });
+      expect(err.message).toBe(
+        'POST polyanets failed (400): {"error":"row out of range"}'
+      );
+    });
+
+    test("should wrap transport failures in a retryable NetworkError", async () => {
+      const cause = new TypeError("fetch failed");
+      const offline = new MegaverseApiClient(candidateId, {
+        fetch: jest.fn().mockRejectedValue(cause),
+      });
+
+      const err = await offline.getGoalMap().catch((e) => e);
+
+      expect(err).toBeInstanceOf(NetworkError);
+      expect(err.cause).toBe(cause);
+      expect(err.message).toBe(
+        "Goal map request failed: fetch failed"
+      );
+      expect(isRetryable(err)).toBe(true);
+      expect(isRetryable(new RequestTimeoutError("x", 1))).toBe(true);
+      expect(mayHaveApplied(err)).toBe(true);
+    });
+  });
+
+  describe("rate limiting", () => {
+    const ok = {
+      ok: true,
+      json: async () => ({ map: { content: [] } }),
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    test("should take a token from the shared limiter for every request", async () => {
+      const limiter = new RateLimiter();
+      const getToken = jest.spyOn(limiter, "getToken");
+      const transport = jest.fn().mockResolvedValue(ok);
+      const first = new MegaverseApiClient(candidateId, {
+        fetch: transport,
+        limiter,
+      });
+      const second = new MegaverseApiClient(candidateId, {
+        fetch: transport,
+        limiter,
+      });
+
+      await first.getCurrentMap();
+      await first.createPolyanet(0, 0);
+      await second.deleteCometh(1, 1);
+
+      expect(getToken).toHaveBeenCalledTimes(3);
+    });
+
+    test("should slow the limiter down on 429", async () => {
+      const limiter = new RateLimiter(6, 2);
+      const limited = new MegaverseApiClient(candidateId, {
+        fetch: jest.fn().mockResolvedValue({
+          ok: false,
+          status: 429,
+          headers: new Headers(),
+          text: async () => "Too Many Requests",
+        }),
+        limiter,
+      });
+
+      await expect(limited.createPolyanet(0, 0)).rejects.toThrow(
+        RateLimitedError
+      );
+      await expect(limited.getGoalMap()).rejects.toThrow(
+        RateLimitedError
+      );
+
+      // Halved once: the second 429 falls inside the cooldown
+      expect(limiter.requestsPerSecond).toBe(1);
+    });
+  });
 });
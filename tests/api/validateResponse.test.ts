@@ -0,0 +1,91 @@
+import {
+  validateCurrentMap,
+  validateGoalMap,
+} from "../../src/api/validateResponse";
+import { InvalidResponseError } from "../../src/api/errors";
+
+describe("validateResponse", () => {
+  const problemsOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidResponseError);
+      return (err as InvalidResponseError).problems.map(
+        (p) => `${p.path}: ${p.message}`
+      );
+    }
+    throw new Error("expected an InvalidResponseError");
+  };
+
+  test("accepts a well-formed goal", () => {
+    const body = { goal: [["SPACE", "POLYANET", "UP_COMETH"]] };
+
+    expect(validateGoalMap("goal", body, "fail")).toEqual({
+      value: body.goal,
+      skipped: [],
+      cells: [],
+    });
+  });
+
+  test("names the field at fault in a goal", () => {
+    expect(
+      problemsOf(() => validateGoalMap("goal", {}, "fail"))
+    ).toEqual(["goal: expected an array of rows, got undefined"]);
+    expect(
+      problemsOf(() =>
+        validateGoalMap(
+          "goal",
+          { goal: [["SPACE", 3], "row", ["X", "SPACE"]] },
+          "fail"
+        )
+      )
+    ).toEqual([
+      "goal[0][1]: expected a token, got 3",
+      'goal[1]: expected an array of cells, got "row"',
+      'goal[2][0]: unknown token "X"',
+    ]);
+  });
+
+  test("checks current map cells against the body registry", () => {
+    const content = [
+      [null, { type: 0 }, { type: 1, color: "red" }],
+      [{ type: 2 }, { type: 1, color: "green" }, "cell"],
+    ];
+
+    expect(
+      problemsOf(() =>
+        validateCurrentMap("map", { map: { content } }, "fail")
+      )
+    ).toEqual([
+      "map.content[1][0].direction: expected a string, got undefined",
+      'map.content[1][1].color: unknown soloon color "green"',
+      'map.content[1][2]: expected null or a cell, got "cell"',
+    ]);
+  });
+
+  test("reads unknown entries as empty under skip", () => {
+    const { value, skipped, cells } = validateCurrentMap(
+      "map",
+      { map: { content: [[{ type: 9 }, { type: 0 }]] } },
+      "skip"
+    );
+
+    expect(value).toEqual([[null, { type: 0 }]]);
+    expect(skipped).toEqual([
+      {
+        path: "map.content[0][0].type",
+        message: "unknown cell type 9",
+        unknown: true,
+      },
+    ]);
+    expect(cells).toEqual([{ row: 0, column: 0 }]);
+  });
+
+  test("lists at most ten problems in the message", () => {
+    const goal = [Array(12).fill("?")];
+
+    expect(() =>
+      validateGoalMap("Goal map request", { goal }, "fail")
+    ).toThrow(/goal\[0\]\[9\]: unknown token "\?"\n  … and 2 more$/);
+  });
+});
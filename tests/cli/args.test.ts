@@ -0,0 +1,145 @@
+import { UsageError, parseArgs, usage } from "../../src/cli/args";
+
+describe("parseArgs", () => {
+  const env = {};
+
+  it("defaults to build", () => {
+    expect(parseArgs(["--candidate", "id"], env)).toEqual({
+      command: "build",
+      operands: [],
+      candidateId: "id",
+      dryRun: false,
+      json: false,
+    });
+  });
+
+  it("accepts the legacy <candidate> [command] form", () => {
+    const opts = parseArgs(["id", "plan", "out.json"], env);
+    expect(opts.candidateId).toBe("id");
+    expect(opts.command).toBe("plan");
+    expect(opts.operands).toEqual(["out.json"]);
+  });
+
+  it("prefers a positional ID followed by a command over CANDIDATE_ID", () => {
+    expect(
+      parseArgs(["pos", "build"], { CANDIDATE_ID: "env" }).candidateId
+    ).toBe("pos");
+    expect(
+      parseArgs(["build"], { CANDIDATE_ID: "env" })
+    ).toMatchObject({ command: "build", candidateId: "env" });
+  });
+
+  it("rejects a mistyped command when the ID comes from elsewhere", () => {
+    expect(() => parseArgs(["buld"], { CANDIDATE_ID: "x" })).toThrow(
+      'Unknown command "buld"'
+    );
+    expect(() => parseArgs(["claen", "--candidate=x"], env)).toThrow(
+      'Unknown command "claen"'
+    );
+  });
+
+  it.each([
+    [["resume", "--dry-run"], "--dry-run does not apply to resume"],
+    [
+      ["snapshot", "--dry-run"],
+      "--dry-run does not apply to snapshot",
+    ],
+    [
+      ["resume", "--target", "map.txt"],
+      "--target does not apply to resume",
+    ],
+    [
+      ["restore", "map.txt", "--target=t"],
+      "--target does not apply to restore",
+    ],
+    [
+      ["clean", "--target", "map.txt"],
+      "--target does not apply to clean",
+    ],
+  ])("rejects flags a command ignores: %j", (argv, message) => {
+    expect(() => parseArgs(argv, { CANDIDATE_ID: "id" })).toThrow(
+      message
+    );
+  });
+
+  it("parses flags anywhere, with or without =", () => {
+    const opts = parseArgs(
+      [
+        "--concurrency=4",
+        "show",
+        "goal",
+        "--json",
+        "--target",
+        "map.txt",
+      ],
+      { CANDIDATE_ID: "id" }
+    );
+    expect(opts).toMatchObject({
+      command: "show",
+      operands: ["goal"],
+      concurrency: 4,
+      json: true,
+      target: "map.txt",
+    });
+  });
+
+  it("parses the log format and level", () => {
+    const opts = parseArgs(
+      ["id", "--log-format=json", "--log-level", "debug"],
+      env
+    );
+    expect(opts.logFormat).toBe("json");
+    expect(opts.logLevel).toBe("debug");
+  });
+
+  it("parses the unknown token policy", () => {
+    expect(
+      parseArgs(["id", "--unknown-tokens", "skip"], env).unknownTokens
+    ).toBe("skip");
+    expect(() =>
+      parseArgs(["id", "--unknown-tokens=ignore"], env)
+    ).toThrow('must be one of fail, skip, got "ignore"');
+  });
+
+  it("treats everything after -- as operands", () => {
+    expect(
+      parseArgs(["id", "snapshot", "--", "--weird.json"], env)
+        .operands
+    ).toEqual(["--weird.json"]);
+  });
+
+  it("returns help for -h without needing a candidate", () => {
+    expect(parseArgs(["plan", "-h"], env).command).toBe("help");
+    expect(parseArgs(["mock-server", "9000"], env).command).toBe(
+      "mock-server"
+    );
+  });
+
+  it.each([
+    [["id", "bulid"], 'Unknown command "bulid"'],
+    [["id", "--fast"], "Unknown option --fast"],
+    [["id", "--concurrency", "0"], "must be a positive integer"],
+    [["id", "--batch-size=abc"], "must be a positive integer"],
+    [["id", "--target"], "--target needs a value"],
+    [["id", "--json=yes"], "--json takes no value"],
+    [
+      ["id", "--log-format", "xml"],
+      '--log-format must be one of pretty, json, got "xml"',
+    ],
+    [["id", "restore"], "restore takes 1 argument(s), got 0"],
+    [["id", "clean", "now"], "clean takes 0 argument(s), got 1"],
+    [["plan"], "Please provide your candidate ID"],
+  ])("rejects %j", (argv, message) => {
+    expect(() => parseArgs(argv, env)).toThrow(UsageError);
+    expect(() => parseArgs(argv, env)).toThrow(message);
+  });
+});
+
+describe("usage", () => {
+  it("lists every command, flag and exit code", () => {
+    const text = usage();
+    expect(text).toContain("mock-server");
+    expect(text).toContain("--dry-run");
+    expect(text).toContain("3 partial failure");
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  ConfigError,
+  DEFAULT_CONFIG,
+  loadConfig,
+} from "../../src/config/loadConfig";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("loadConfig", () => {
+  let dir: string;
+  let file: string;
+
+  const write = (content: unknown) =>
+    writeFileSync(
+      file,
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "megaverse-config-"));
+    file = join(dir, "megaverse.config.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should return the defaults when nothing is set", () => {
+    expect(loadConfig({ env: {} })).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("should merge file < env < overrides", () => {
+    write({
+      concurrency: { initial: 2, max: 4 },
+      batch: { size: 10, delayMs: 500 },
+      retry: { retries: 3 },
+    });
+
+    const config = loadConfig({
+      file,
+      env: {
+        MEGAVERSE_BATCH_SIZE: "15",
+        MEGAVERSE_MAX_CONCURRENCY: "6",
+      },
+      overrides: { batch: { size: 30 }, concurrency: { initial: 5 } },
+    });
+
+    expect(config.concurrency).toEqual({
+      initial: 5,
+      max: 6,
+      adjustIntervalMs: DEFAULT_CONFIG.concurrency.adjustIntervalMs,
+    });
+    expect(config.batch).toEqual({ size: 30, delayMs: 500 });
+    expect(config.retry.retries).toBe(3);
+    expect(config.retry.factor).toBe(DEFAULT_CONFIG.retry.factor);
+  });
+
+  test("should read the request timeout from the environment", () => {
+    const config = loadConfig({
+      env: { MEGAVERSE_REQUEST_TIMEOUT_MS: "5000" },
+    });
+
+    expect(config.request).toEqual({ timeoutMs: 5_000 });
+  });
+
+  test("should ignore undefined overrides", () => {
+    const config = loadConfig({
+      env: {},
+      overrides: { concurrency: { initial: undefined } },
+    });
+    expect(config.concurrency.initial).toBe(
+      DEFAULT_CONFIG.concurrency.initial
+    );
+  });
+
+  test("should not mutate the defaults", () => {
+    loadConfig({ env: { MEGAVERSE_CONCURRENCY: "1" } });
+    expect(DEFAULT_CONFIG.concurrency.initial).toBe(3);
+  });
+
+  test("should fail when an explicit file is missing", () => {
+    expect(() =>
+      loadConfig({ file: join(dir, "nope.json"), env: {} })
+    ).toThrow(ConfigError);
+  });
+
+  test("should report every problem at once", () => {
+    write({
+      concurrency: { initial: 0 },
+      batch: { size: 2.5, delay: 100 },
+      retries: 3,
+    });
+
+    let error: ConfigError | undefined;
+    try {
+      loadConfig({ file, env: { MEGAVERSE_RETRY_FACTOR: "fast" } });
+    } catch (err) {
+      error = err as ConfigError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error!.problems).toEqual([
+      `${file}: concurrency.initial must be an integer ≥ 1, got 0`,
+      `${file}: batch.size must be an integer ≥ 1, got 2.5`,
+      `${file}: unknown setting "batch.delay"`,
+      `${file}: unknown section "retries"`,
+      'MEGAVERSE_RETRY_FACTOR: must be a number, got "fast"',
+    ]);
+  });
+
+  test("should name the env var that holds a bad value", () => {
+    expect(() =>
+      loadConfig({ env: { MEGAVERSE_CONCURRENCY: "-1" } })
+    ).toThrow(
+      "MEGAVERSE_CONCURRENCY: concurrency.initial must be an integer ≥ 1, got -1"
+    );
+  });
+
+  test("should reject settings that contradict each other", () => {
+    expect(() =>
+      loadConfig({
+        env: {},
+        overrides: { concurrency: { initial: 12 } },
+      })
+    ).toThrow(
+      "concurrency.max (8) is below concurrency.initial (12)"
+    );
+  });
+
+  test("should report invalid JSON with the file name", () => {
+    write("{ concurrency: ");
+    expect(() => loadConfig({ file, env: {} })).toThrow(file);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  BODY_TYPES,
+  BodyCell,
+  CELLS,
+  CurrentCell,
+  bodyFromCell,
+  bodyFromToken,
+  bodyPayload,
+  bodyToCell,
+  bodyToToken,
+  sameBody,
+} from "../../src/domain/models";
+
+describe("domain models", () => {
+  const bodyTokens = CELLS.filter(
+    (token): token is BodyCell => token !== "SPACE"
+  );
+
+  test.each(bodyTokens)("round-trips %s through a body", (token) => {
+    const body = bodyFromToken(token);
+
+    expect(bodyToToken(body)).toBe(token);
+    expect(bodyFromCell(bodyToCell(body))).toEqual(body);
+  });
+
+  test("reads goal tokens", () => {
+    expect(bodyFromToken("POLYANET")).toEqual({ kind: "polyanet" });
+    expect(bodyFromToken("PURPLE_SOLOON")).toEqual({
+      kind: "soloon",
+      color: "purple",
+    });
+    expect(bodyFromToken("LEFT_COMETH")).toEqual({
+      kind: "cometh",
+      direction: "left",
+    });
+    expect(bodyFromToken("SPACE")).toBeNull();
+    expect(bodyFromToken("GREEN_SOLOON")).toBeNull();
+    expect(bodyFromToken("UP_SOLOON")).toBeNull();
+  });
+
+  test("reads API cells", () => {
+    const cells: CurrentCell[] = [
+      null,
+      { type: 0 },
+      { type: 1, color: "white" },
+      { type: 2, direction: "down" },
+    ];
+
+    expect(cells.map(bodyFromCell)).toEqual([
+      null,
+      { kind: "polyanet" },
+      { kind: "soloon", color: "white" },
+      { kind: "cometh", direction: "down" },
+    ]);
+  });
+
+  test("derives tokens, cell codes and payloads from the registry", () => {
+    expect(
+      BODY_TYPES.map(({ kind, code, resource }) => [
+        kind,
+        code,
+        resource,
+      ])
+    ).toEqual([
+      ["polyanet", 0, "polyanets"],
+      ["soloon", 1, "soloons"],
+      ["cometh", 2, "comeths"],
+    ]);
+    // Every attribute value makes one token, plus SPACE
+    expect(CELLS).toHaveLength(1 + 4 + 4 + 1);
+    expect(bodyPayload({ kind: "polyanet" })).toEqual({});
+    expect(bodyPayload({ kind: "soloon", color: "red" })).toEqual({
+      color: "red",
+    });
+  });
+
+  test("checks placement rules through the registered type", () => {
+    const [, soloon] = BODY_TYPES;
+    const grid = [
+      ["POLYANET", "SPACE", "SPACE"],
+      ["SPACE", "SPACE", "SPACE"],
+    ];
+    const tokenAt = (r: number, c: number) => grid[r]?.[c];
+
+    expect(soloon.rule.allows(tokenAt, 1, 1)).toBe(true);
+    expect(soloon.rule.allows(tokenAt, 1, 2)).toBe(false);
+  });
+
+  test("compares bodies, empty cells included", () => {
+    const red = bodyFromToken("RED_SOLOON");
+
+    expect(sameBody(null, null)).toBe(true);
+    expect(sameBody(red, { kind: "soloon", color: "red" })).toBe(
+      true
+    );
+    expect(sameBody(red, null)).toBe(false);
+    expect(sameBody(red, bodyFromToken("BLUE_SOLOON"))).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  ASCII_CELLS,
+  MapParseError,
+  parseMap,
+} from "../../src/domain/parseMap";
+import { CELLS } from "../../src/domain/models";
+
+describe("parseMap", () => {
+  describe("ASCII art", () => {
+    test("should parse every cell symbol", () => {
+      const text = [
+        "# hand-drawn test pattern",
+        "P r b p w",
+        "^ v < > .",
+        "",
+      ].join("\n");
+
+      expect(parseMap(text)).toEqual([
+        [
+          "POLYANET",
+          "RED_SOLOON",
+          "BLUE_SOLOON",
+          "PURPLE_SOLOON",
+          "WHITE_SOLOON",
+        ],
+        [
+          "UP_COMETH",
+          "DOWN_COMETH",
+          "LEFT_COMETH",
+          "RIGHT_COMETH",
+          "SPACE",
+        ],
+      ]);
+    });
+
+    test("should have a letter for every registered cell", () => {
+      expect(Object.values(ASCII_CELLS).sort()).toEqual(
+        [...CELLS].sort()
+      );
+    });
+
+    test("should accept compact rows without separators", () => {
+      expect(parseMap("P.\n.r\n")).toEqual([
+        ["POLYANET", "SPACE"],
+        ["SPACE", "RED_SOLOON"],
+      ]);
+    });
+
+    test("should point at an unknown symbol", () => {
+      expect(() => parseMap("P..\n.x.", "pattern.txt")).toThrow(
+        'pattern.txt:2:2: unknown cell "x"'
+      );
+    });
+
+    test("should report ragged rows with their line", () => {
+      try {
+        parseMap("P..\n..\n");
+        fail("expected a MapParseError");
+      } catch (err) {
+        expect(err).toBeInstanceOf(MapParseError);
+        expect((err as MapParseError).line).toBe(2);
+        expect((err as MapParseError).column).toBe(3);
+        expect((err as Error).message).toContain(
+          "row has 2 cells, expected 3"
+        );
+      }
+    });
+
+    test("should reject an empty map", () => {
+      expect(() => parseMap("# nothing here\n")).toThrow(
+        "map is empty"
+      );
+    });
+  });
+
+  describe("JSON", () => {
+    test("should parse a bare token grid and an API-style goal", () => {
+      const grid = [
+        ["POLYANET", "SPACE"],
+        ["SPACE", "LEFT_COMETH"],
+      ];
+
+      expect(parseMap(JSON.stringify(grid))).toEqual(grid);
+      expect(parseMap(JSON.stringify({ goal: grid }))).toEqual(grid);
+    });
+
+    test("should point at an unknown token", () => {
+      const text =
+        '[\n  ["SPACE", "POLYANET"],\n  ["SPACE", "NEBULA"]\n]';
+
+      expect(() => parseMap(text, "goal.json")).toThrow(
+        'goal.json:3:13: unknown token "NEBULA"'
+      );
+    });
+
+    test("should point at a ragged row", () => {
+      const text = '{"goal": [\n["SPACE", "SPACE"],\n["SPACE"]\n]}';
+
+      expect(() => parseMap(text)).toThrow(
+        "map:3:2: row 1 has 1 cells, expected 2"
+      );
+    });
+
+    test("should locate JSON syntax errors", () => {
+      expect(() => parseMap('[\n  ["SPACE",]\n]')).toThrow(
+        MapParseError
+      );
+    });
+
+    test("should reject JSON that is not a grid", () => {
+      expect(() => parseMap('{"rows": 3}')).toThrow("is not a map");
+    });
+  });
+});
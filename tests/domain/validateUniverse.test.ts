@@ -0,0 +1,114 @@
+import { Cell } from "../../src/domain/models";
+import {
+  UniverseValidationError,
+  validateGoal,
+  validatePlan,
+} from "../../src/domain/validateUniverse";
+
+describe("validateUniverse", () => {
+  describe("validateGoal", () => {
+    test("accepts soloons next to a polyanet, diagonals included", () => {
+      const goal: Cell[][] = [
+        ["POLYANET", "RED_SOLOON", "SPACE"],
+        ["SPACE", "WHITE_SOLOON", "UP_COMETH"],
+      ];
+
+      expect(validateGoal(goal)).toEqual([]);
+    });
+
+    test("reports soloons without a neighbouring polyanet", () => {
+      const goal: Cell[][] = [
+        ["POLYANET", "SPACE", "SPACE"],
+        ["SPACE", "SPACE", "BLUE_SOLOON"],
+      ];
+
+      expect(validateGoal(goal)).toEqual([
+        {
+          rule: "soloon-next-to-polyanet",
+          row: 1,
+          column: 2,
+          message: "BLUE_SOLOON has no adjacent POLYANET",
+        },
+      ]);
+    });
+
+    test("reports ragged rows and unknown tokens", () => {
+      const goal = [
+        ["SPACE", "SPACE"],
+        ["SPACE", "NEBULA", "SPACE"],
+      ] as Cell[][];
+
+      const rules = validateGoal(goal).map((v) => [
+        v.rule,
+        v.row,
+        v.column,
+      ]);
+
+      expect(rules).toEqual([
+        ["rectangular-grid", 1, 2],
+        ["known-token", 1, 1],
+      ]);
+    });
+  });
+
+  describe("validatePlan", () => {
+    const before: Cell[][] = [
+      ["SPACE", "SPACE"],
+      ["SPACE", "SPACE"],
+    ];
+
+    test("accepts a plan whose result follows the rules", () => {
+      expect(
+        validatePlan(
+          [
+            { kind: "create", row: 0, column: 0, body: "POLYANET" },
+            { kind: "create", row: 1, column: 1, body: "RED_SOLOON" },
+          ],
+          before
+        )
+      ).toEqual([]);
+    });
+
+    test("reports steps outside the grid", () => {
+      const violations = validatePlan(
+        [{ kind: "create", row: 2, column: 0, body: "POLYANET" }],
+        before
+      );
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        rule: "in-bounds",
+        row: 2,
+        column: 0,
+      });
+    });
+
+    test("reports soloons left alone after a delete", () => {
+      const violations = validatePlan(
+        [{ kind: "delete", row: 0, column: 0, body: "POLYANET" }],
+        [
+          ["POLYANET", "PURPLE_SOLOON"],
+          ["SPACE", "SPACE"],
+        ]
+      );
+
+      expect(violations.map((v) => v.rule)).toEqual([
+        "soloon-next-to-polyanet",
+      ]);
+    });
+  });
+
+  test("UniverseValidationError lists every violation", () => {
+    const err = new UniverseValidationError("Goal map", [
+      {
+        rule: "in-bounds",
+        row: 9,
+        column: 9,
+        message: "outside",
+      },
+    ]);
+
+    expect(err.message).toContain("Goal map breaks 1 rule(s)");
+    expect(err.message).toContain("[9,9] in-bounds: outside");
+  });
+});
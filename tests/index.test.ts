@@ -1,6 +1,19 @@
 import { main } from "../src/index";
 import { MegaverseApiClient } from "../src/api/MegaverseApiClient";
 import { MegaverseBuilder } from "../src/orchestrator/MegaverseBuilder";
+import { BuildJournal } from "../src/orchestrator/BuildJournal";
+import { RateLimiter } from "../src/utils/rateLimiter";
+import { MockMegaverseServer } from "../src/mock/MockMegaverseServer";
+import { createSystemClock } from "../src/utils/clock";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 // Mock the ApiClient and Builder
 jest.mock("../src/api/MegaverseApiClient");
@@ -10,7 +23,19 @@ jest.mock("../src/orchestrator/MegaverseBuilder", () => {
       return {
         buildUniverse: jest.fn().mockResolvedValue(undefined),
         cleanUniverse: jest.fn().mockResolvedValue(undefined),
+        resumeBuild: jest.fn().mockResolvedValue(undefined),
+        restoreUniverse: jest.fn().mockResolvedValue(undefined),
+        applyPlan: jest.fn().mockResolvedValue(undefined),
+        snapshotUniverse: jest
+          .fn()
+          .mockResolvedValue([["POLYANET", "SPACE"]]),
+        planUniverse: jest
+          .fn()
+          .mockResolvedValue([
+            { kind: "create", row: 0, column: 0, body: "POLYANET" },
+          ]),
         stopAdjusting: jest.fn(),
+        report: jest.fn(),
       };
     }),
   };
@@ -69,12 +94,371 @@ describe("Main application", () => {
     process.argv = ["node", "dist/index.js"];
     delete process.env.CANDIDATE_ID;
 
-    await expect(main()).rejects.toThrow("Process exit with code: 1");
+    await expect(main()).rejects.toThrow("Process exit with code: 2");
 
     expect(mockConsoleError).toHaveBeenCalledWith(
       expect.stringContaining("Please provide your candidate ID")
     );
-    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(mockExit).toHaveBeenCalledWith(2);
+  });
+
+  test("should exit with a usage error on an unknown command", async () => {
+    process.argv = ["node", "dist/index.js", "test-id", "bulid"];
+
+    await expect(main()).rejects.toThrow("Process exit with code: 2");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown command "bulid"')
+    );
+    expect(MegaverseBuilder).not.toHaveBeenCalled();
+  });
+
+  test("should exit with 1 when the mock server port is taken", async () => {
+    const taken = new MockMegaverseServer({ goal: [["SPACE"]] });
+    const port = new URL(await taken.listen(0)).port;
+
+    try {
+      await expect(main(["mock-server", port], {})).rejects.toThrow(
+        "Process exit with code: 1"
+      );
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        expect.stringContaining(`Could not listen on port ${port}`)
+      );
+    } finally {
+      await taken.close();
+    }
+  });
+
+  test("should print usage for --help without a candidate ID", async () => {
+    delete process.env.CANDIDATE_ID;
+
+    await main(["--help"]);
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      expect.stringContaining("Usage:")
+    );
+    expect(MegaverseApiClient).not.toHaveBeenCalled();
+  });
+
+  test("should take the candidate ID from --candidate", async () => {
+    process.env.CANDIDATE_ID = "env-id";
+
+    await main(["clean", "--candidate", "flag-id"]);
+
+    expect(MegaverseApiClient).toHaveBeenCalledWith(
+      "flag-id",
+      expect.anything()
+    );
+    const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+      .results[0].value;
+    expect(mockBuilder.cleanUniverse).toHaveBeenCalled();
+  });
+
+  test("should pass --concurrency and --batch-size to the builder", async () => {
+    await main([
+      "build",
+      "--candidate=test-id",
+      "--concurrency",
+      "5",
+      "--batch-size=40",
+    ]);
+
+    expect(MegaverseBuilder).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        config: expect.objectContaining({
+          concurrency: expect.objectContaining({ initial: 5 }),
+          batch: expect.objectContaining({ size: 40 }),
+        }),
+      })
+    );
+  });
+
+  test("should let flags override env vars and the config file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-config-"));
+    const file = join(dir, "tuning.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ concurrency: { initial: 2, max: 4 } })
+    );
+    process.env.MEGAVERSE_MAX_CONCURRENCY = "6";
+
+    try {
+      await main([
+        "build",
+        "--candidate",
+        "test-id",
+        "--config",
+        file,
+        "--concurrency",
+        "5",
+      ]);
+
+      const { config } = (MegaverseBuilder as jest.Mock).mock
+        .calls[0][1];
+      expect(config.concurrency).toMatchObject({
+        initial: 5,
+        max: 6,
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should give the client one limiter with the configured rate", async () => {
+    process.env.MEGAVERSE_RATE_PER_SECOND = "3";
+
+    await main(["build", "--candidate", "test-id"]);
+
+    const { limiter } = (MegaverseApiClient as unknown as jest.Mock)
+      .mock.calls[0][1];
+    expect(limiter).toBeInstanceOf(RateLimiter);
+    expect(limiter.requestsPerSecond).toBe(3);
+    // The builder counts requests (map reads too) at the same limiter
+    expect(
+      (MegaverseBuilder as jest.Mock).mock.calls[0][1].limiter
+    ).toBe(limiter);
+  });
+
+  test("should seed the clock from --seed", async () => {
+    await main(["build", "--candidate", "test-id", "--seed", "42"]);
+
+    const { clock } = (MegaverseBuilder as jest.Mock).mock
+      .calls[0][1];
+    expect(clock.random()).toBe(createSystemClock(42).random());
+    expect(mockConsoleLog).toHaveBeenCalledWith("🎲 Seed: 42");
+  });
+
+  test("should log JSON lines with --log-format json", async () => {
+    await main([
+      "build",
+      "--candidate",
+      "test-id",
+      "--seed",
+      "42",
+      "--log-format",
+      "json",
+    ]);
+
+    const lines = mockConsoleLog.mock.calls.map(([line]) =>
+      JSON.parse(line)
+    );
+    expect(lines).toContainEqual(
+      expect.objectContaining({
+        level: "info",
+        msg: "🎲 Seed: 42",
+        seed: 42,
+      })
+    );
+    const { logger } = (MegaverseBuilder as jest.Mock).mock
+      .calls[0][1];
+    expect(logger).toBeDefined();
+  });
+
+  test("should print the run report and save it with --report", async () => {
+    const report = {
+      action: "build",
+      startedAt: "2024-01-01T00:00:00.000Z",
+      durationMs: 2_000,
+      operations: {
+        polyanet: { attempted: 2, succeeded: 2, failed: 0 },
+      },
+      retries: 0,
+      rateLimited: 0,
+      sleepingMs: 0,
+      inFlightMs: 400,
+      requests: 2,
+      requestsPerSecond: 1,
+      concurrency: [{ atMs: 0, concurrency: 3 }],
+      wrongCells: [],
+      skipped: [],
+    };
+    (MegaverseBuilder as jest.Mock).mockImplementationOnce(() => ({
+      buildUniverse: jest.fn().mockResolvedValue(undefined),
+      stopAdjusting: jest.fn(),
+      report: () => report,
+    }));
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-report-"));
+    const outFile = join(dir, "report.json");
+
+    try {
+      await main([
+        "build",
+        "--candidate",
+        "test-id",
+        "--report",
+        outFile,
+      ]);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        "📊 build report: 2.0s, 2 requests (1.00 req/sec)"
+      );
+      expect(JSON.parse(readFileSync(outFile, "utf8"))).toEqual(
+        report
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should exit with 3 when cells are still wrong after a build", async () => {
+    const stopAdjusting = jest.fn();
+    (MegaverseBuilder as jest.Mock).mockImplementationOnce(() => ({
+      buildUniverse: jest.fn().mockResolvedValue({
+        ok: false,
+        failed: [],
+        wrongCells: [
+          { kind: "create", row: 0, column: 0, body: "POLYANET" },
+        ],
+        skipped: [],
+      }),
+      stopAdjusting,
+      report: jest.fn(),
+    }));
+
+    await expect(
+      main(["build", "--candidate", "test-id"])
+    ).rejects.toThrow("Process exit with code: 3");
+
+    expect(stopAdjusting).toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "⚠ Finished with 1 cells still wrong"
+    );
+    expect(mockConsoleLog).not.toHaveBeenCalledWith("✅ Done!");
+  });
+
+  test("should exit with 3 when a run left unknown cells alone", async () => {
+    (MegaverseBuilder as jest.Mock).mockImplementationOnce(() => ({
+      cleanUniverse: jest.fn().mockResolvedValue({
+        ok: false,
+        cancelled: false,
+        failed: [],
+        wrongCells: [],
+        skipped: [{ row: 0, column: 0 }],
+      }),
+      stopAdjusting: jest.fn(),
+      report: jest.fn(),
+    }));
+
+    await expect(
+      main(["clean", "--candidate", "test-id"])
+    ).rejects.toThrow("Process exit with code: 3");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      "⚠ Finished with 0 cells still wrong and 1 unknown cells left alone"
+    );
+  });
+
+  test("should drain on SIGINT and exit with 130", async () => {
+    const stopAdjusting = jest.fn();
+    let signal: AbortSignal | undefined;
+    (MegaverseBuilder as jest.Mock).mockImplementationOnce(
+      (_client, options) => {
+        signal = options.signal;
+        return {
+          buildUniverse: jest.fn().mockImplementation(async () => {
+            process.emit("SIGINT");
+            return {
+              ok: false,
+              cancelled: true,
+              failed: [],
+              wrongCells: [
+                {
+                  kind: "create",
+                  row: 0,
+                  column: 0,
+                  body: "POLYANET",
+                },
+              ],
+            };
+          }),
+          stopAdjusting,
+          report: jest.fn(),
+        };
+      }
+    );
+    const mockConsoleWarn = jest
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    const listeners = process.listenerCount("SIGINT");
+
+    try {
+      await expect(
+        main(["build", "--candidate", "test-id"])
+      ).rejects.toThrow("Process exit with code: 130");
+
+      expect(signal?.aborted).toBe(true);
+      expect(MegaverseApiClient).toHaveBeenCalledWith(
+        "test-id",
+        expect.objectContaining({ signal })
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        "✋ Interrupted with 1 operations left to do."
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith("✅ Done!");
+      expect(stopAdjusting).toHaveBeenCalled();
+      expect(process.listenerCount("SIGINT")).toBe(listeners);
+    } finally {
+      mockConsoleWarn.mockRestore();
+    }
+  });
+
+  test("should pass the API base URL and timeout from main's env", async () => {
+    await main(["build", "--candidate", "test-id"], {
+      MEGAVERSE_BASE_URL: "http://localhost:9000/api",
+      MEGAVERSE_REQUEST_TIMEOUT_MS: "5000",
+    });
+
+    expect(MegaverseApiClient).toHaveBeenCalledWith(
+      "test-id",
+      expect.objectContaining({
+        baseUrl: "http://localhost:9000/api",
+        timeoutMs: 5_000,
+      })
+    );
+  });
+
+  test("should exit with a config error before touching the API", async () => {
+    process.env.MEGAVERSE_BATCH_SIZE = "zero";
+
+    await expect(
+      main(["build", "--candidate", "test-id"])
+    ).rejects.toThrow("Process exit with code: 2");
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining("MEGAVERSE_BATCH_SIZE")
+    );
+    expect(MegaverseBuilder).not.toHaveBeenCalled();
+  });
+
+  test("should only print the plan for build --dry-run", async () => {
+    await main(["build", "--candidate", "test-id", "--dry-run"]);
+
+    const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+      .results[0].value;
+    expect(mockBuilder.planUniverse).toHaveBeenCalled();
+    expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
+  });
+
+  test("should plan clean --dry-run toward an empty universe", async () => {
+    await main(["clean", "--candidate", "test-id", "--dry-run"]);
+
+    const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+      .results[0].value;
+    expect(mockBuilder.planUniverse).toHaveBeenCalledWith([
+      ["SPACE", "SPACE"],
+    ]);
+    expect(mockBuilder.cleanUniverse).not.toHaveBeenCalled();
+  });
+
+  test("should print only JSON on stdout with --json", async () => {
+    await main(["plan", "--candidate", "test-id", "--json"]);
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    const printed = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+    expect(printed.summary).toEqual({
+      polyanet: { create: 1, delete: 0, replace: 0 },
+    });
   });
 
   test("should use candidate ID from command line args", async () => {
@@ -82,26 +466,45 @@ describe("Main application", () => {
 
     await main();
 
-    expect(MegaverseApiClient).toHaveBeenCalledWith("test-id");
+    expect(MegaverseApiClient).toHaveBeenCalledWith(
+      "test-id",
+      expect.anything()
+    );
     expect(MegaverseBuilder).toHaveBeenCalled();
   });
 
   test("should use candidate ID from environment variable", async () => {
+    process.argv = ["node", "dist/index.js"];
     process.env.CANDIDATE_ID = "env-test-id";
 
     await main();
 
-    expect(MegaverseApiClient).toHaveBeenCalledWith("env-test-id");
+    expect(MegaverseApiClient).toHaveBeenCalledWith(
+      "env-test-id",
+      expect.anything()
+    );
     expect(MegaverseBuilder).toHaveBeenCalled();
   });
 
-  test("should prioritize environment variable over command line arg", async () => {
-    process.argv = ["node", "dist/index.js", "arg-id"];
+  test("should prefer a positional ID and command over the environment variable", async () => {
+    process.argv = ["node", "dist/index.js", "arg-id", "build"];
     process.env.CANDIDATE_ID = "env-id";
 
     await main();
 
-    expect(MegaverseApiClient).toHaveBeenCalledWith("env-id");
+    expect(MegaverseApiClient).toHaveBeenCalledWith(
+      "arg-id",
+      expect.anything()
+    );
+  });
+
+  test("should reject a mistyped command instead of building", async () => {
+    process.argv = ["node", "dist/index.js", "claen"];
+    process.env.CANDIDATE_ID = "env-id";
+
+    await expect(main()).rejects.toThrow("Process exit with code: 2");
+
+    expect(MegaverseBuilder).not.toHaveBeenCalled();
   });
 
   test("should run build action by default", async () => {
@@ -126,6 +529,176 @@ describe("Main application", () => {
     expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
   });
 
+  test("should resume from the journal when resume is specified", async () => {
+    process.argv = ["node", "dist/index.js", "test-id", "resume"];
+
+    await main();
+
+    const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+      .results[0].value;
+    expect(mockBuilder.resumeBuild).toHaveBeenCalled();
+    expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
+    expect(MegaverseBuilder).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ journal: expect.any(BuildJournal) })
+    );
+  });
+
+  test("should only plan when plan action is specified", async () => {
+    process.argv = ["node", "dist/index.js", "test-id", "plan"];
+
+    await main();
+
+    const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+      .results[0].value;
+    expect(mockBuilder.planUniverse).toHaveBeenCalled();
+    expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
+    expect(mockBuilder.cleanUniverse).not.toHaveBeenCalled();
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      expect.stringContaining("[0,0] create POLYANET")
+    );
+  });
+
+  test("should save the plan as JSON when a file is given", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-plan-"));
+    const outFile = join(dir, "plan.json");
+    process.argv = [
+      "node",
+      "dist/index.js",
+      "test-id",
+      "plan",
+      outFile,
+    ];
+
+    try {
+      await main();
+
+      expect(existsSync(outFile)).toBe(true);
+      const saved = JSON.parse(readFileSync(outFile, "utf8"));
+      expect(saved.candidateId).toBe("test-id");
+      expect(saved.summary).toEqual({
+        polyanet: { create: 1, delete: 0, replace: 0 },
+      });
+      expect(saved.changes).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should apply the changes of a saved plan", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-plan-"));
+    const file = join(dir, "plan.json");
+
+    try {
+      process.argv = [
+        "node",
+        "dist/index.js",
+        "test-id",
+        "plan",
+        file,
+      ];
+      await main();
+
+      process.argv = [
+        "node",
+        "dist/index.js",
+        "test-id",
+        "apply",
+        file,
+      ];
+      await main();
+
+      const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+        .results[1].value;
+      expect(mockBuilder.applyPlan).toHaveBeenCalledWith([
+        { kind: "create", row: 0, column: 0, body: "POLYANET" },
+      ]);
+      expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should snapshot and restore the universe through a file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-snapshot-"));
+    const file = join(dir, "snapshot.json");
+
+    try {
+      process.argv = [
+        "node",
+        "dist/index.js",
+        "test-id",
+        "snapshot",
+        file,
+      ];
+      await main();
+      expect(existsSync(file)).toBe(true);
+
+      process.argv = [
+        "node",
+        "dist/index.js",
+        "test-id",
+        "restore",
+        file,
+      ];
+      await main();
+
+      const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+        .results[1].value;
+      expect(mockBuilder.restoreUniverse).toHaveBeenCalledWith([
+        ["POLYANET", "SPACE"],
+      ]);
+      expect(mockBuilder.buildUniverse).not.toHaveBeenCalled();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should build toward a --target map file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "megaverse-target-"));
+    const file = join(dir, "pattern.txt");
+    writeFileSync(file, "P.\n.r\n");
+
+    try {
+      process.argv = [
+        "node",
+        "dist/index.js",
+        "test-id",
+        "--target",
+        file,
+        "build",
+      ];
+      await main();
+
+      const mockBuilder = (MegaverseBuilder as jest.Mock).mock
+        .results[0].value;
+      expect(mockBuilder.buildUniverse).toHaveBeenCalledWith([
+        ["POLYANET", "SPACE"],
+        ["SPACE", "RED_SOLOON"],
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should render the diff for show", async () => {
+    process.argv = ["node", "dist/index.js", "test-id", "show"];
+    (MegaverseBuilder as jest.Mock).mockImplementationOnce(() => ({
+      state: {
+        goal: jest.fn().mockResolvedValue([["POLYANET", "SPACE"]]),
+        reconcile: jest.fn().mockResolvedValue([[null, null]]),
+      },
+      stopAdjusting: jest.fn(),
+      report: jest.fn(),
+    }));
+
+    await main();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(
+      expect.stringContaining("P .  |  . .  |  + .")
+    );
+  });
+
   test("should always call stopAdjusting when done", async () => {
     process.argv = ["node", "dist/index.js", "test-id"];
 
@@ -146,6 +719,7 @@ describe("Main application", () => {
         .mockRejectedValue(new Error("Build failed")),
       cleanUniverse: jest.fn(),
       stopAdjusting: jest.fn(),
+      report: jest.fn(),
     };
     (MegaverseBuilder as jest.Mock).mockReturnValueOnce(mockBuilder);
 
@@ -153,8 +727,7 @@ describe("Main application", () => {
 
     expect(mockBuilder.stopAdjusting).toHaveBeenCalled();
     expect(mockConsoleError).toHaveBeenCalledWith(
-      expect.stringContaining("Error:"),
-      expect.stringContaining("Build failed")
+      "💥 Error: Build failed"
     );
   });
 });
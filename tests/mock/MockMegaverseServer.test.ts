@@ -0,0 +1,279 @@
+import { request } from "http";
+import {
+  MockMegaverseServer,
+  crossGoal,
+} from "../../src/mock/MockMegaverseServer";
+import { MegaverseApiClient } from "../../src/api/MegaverseApiClient";
+import { MegaverseBuilder } from "../../src/orchestrator/MegaverseBuilder";
+
+// Mock sleep so backoff, batch pauses and injected latency are instant
+jest.mock("../../src/utils/sleep", () => ({
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** deterministic stand-in for Math.random cycling through `values` */
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe("MockMegaverseServer", () => {
+  const goal = [
+    ["POLYANET", "SPACE", "SPACE"],
+    ["SPACE", "RED_SOLOON", "SPACE"],
+    ["SPACE", "SPACE", "UP_COMETH"],
+  ];
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("routes", () => {
+    test("should serve the goal and current maps", async () => {
+      const server = new MockMegaverseServer({ goal });
+
+      const goalResp = await server.fetch(
+        "http://mock/api/map/abc/goal"
+      );
+      expect(await goalResp.json()).toEqual({ goal });
+
+      const mapResp = await server.fetch("http://mock/api/map/abc");
+      const body = await mapResp.json();
+      expect(body.map.content).toEqual([
+        [null, null, null],
+        [null, null, null],
+        [null, null, null],
+      ]);
+    });
+
+    test("should apply POST and DELETE writes to the grid", async () => {
+      const server = new MockMegaverseServer({ goal });
+      const post = (resource: string, payload: object) =>
+        server.fetch(`http://mock/api/${resource}`, {
+          method: "POST",
+          body: JSON.stringify({ candidateId: "abc", ...payload }),
+        });
+
+      await post("polyanets", { row: 0, column: 0 });
+      await post("soloons", { row: 1, column: 1, color: "red" });
+      await post("comeths", { row: 2, column: 2, direction: "up" });
+
+      expect(server.grid[0][0]).toEqual({ type: 0 });
+      expect(server.grid[1][1]).toEqual({ type: 1, color: "red" });
+      expect(server.grid[2][2]).toEqual({ type: 2, direction: "up" });
+
+      await server.fetch("http://mock/api/soloons", {
+        method: "DELETE",
+        body: JSON.stringify({
+          candidateId: "abc",
+          row: 1,
+          column: 1,
+        }),
+      });
+      expect(server.grid[1][1]).toBeNull();
+    });
+
+    test("should reject invalid coordinates and attributes", async () => {
+      const server = new MockMegaverseServer({ goal });
+
+      const outside = await server.fetch(
+        "http://mock/api/polyanets",
+        {
+          method: "POST",
+          body: JSON.stringify({ row: 3, column: 0 }),
+        }
+      );
+      expect(outside.status).toBe(400);
+
+      const badColor = await server.fetch("http://mock/api/soloons", {
+        method: "POST",
+        body: JSON.stringify({ row: 0, column: 0, color: "green" }),
+      });
+      expect(badColor.status).toBe(400);
+      expect(server.grid[0][0]).toBeNull();
+    });
+
+    test("should reject lonely soloons when rules are enforced", async () => {
+      const server = new MockMegaverseServer({
+        goal,
+        enforceRules: true,
+      });
+      const soloon = () =>
+        server.fetch("http://mock/api/soloons", {
+          method: "POST",
+          body: JSON.stringify({ row: 1, column: 1, color: "red" }),
+        });
+
+      expect((await soloon()).status).toBe(400);
+
+      server.grid[0][0] = { type: 0 };
+      expect((await soloon()).status).toBe(200);
+    });
+
+    test("should answer 404 for unknown routes", async () => {
+      const server = new MockMegaverseServer({ goal });
+
+      const resp = await server.fetch("http://mock/api/nebulas");
+
+      expect(resp.status).toBe(404);
+    });
+  });
+
+  describe("failure injection", () => {
+    test("should answer 429 with Retry-After", async () => {
+      const server = new MockMegaverseServer({
+        goal,
+        failures: { rateLimitRate: 1, retryAfterSeconds: 7 },
+      });
+
+      const resp = await server.fetch("http://mock/api/map/abc");
+
+      expect(resp.status).toBe(429);
+      expect(resp.headers.get("retry-after")).toBe("7");
+    });
+
+    test("should answer random 5xx errors", async () => {
+      const server = new MockMegaverseServer({
+        goal,
+        failures: { serverErrorRate: 0.5 },
+        random: sequence(0.1, 0.9),
+      });
+
+      const resp = await server.fetch("http://mock/api/map/abc");
+
+      expect(resp.status).toBeGreaterThanOrEqual(500);
+    });
+
+    test("should silently drop writes", async () => {
+      const server = new MockMegaverseServer({
+        goal,
+        failures: { dropWriteRate: 1 },
+      });
+
+      const resp = await server.fetch("http://mock/api/polyanets", {
+        method: "POST",
+        body: JSON.stringify({ row: 0, column: 0 }),
+      });
+
+      expect(resp.status).toBe(200);
+      expect(server.grid[0][0]).toBeNull();
+    });
+  });
+
+  describe("over HTTP", () => {
+    test("should serve requests on a real port", async () => {
+      const server = new MockMegaverseServer({
+        goal: crossGoal(5, 1),
+      });
+      const baseUrl = await server.listen(0);
+
+      try {
+        const body = await new Promise<string>((resolve, reject) => {
+          request(`${baseUrl}/map/abc/goal`, (res) => {
+            let data = "";
+            res.on("data", (chunk) => (data += chunk));
+            res.on("end", () => resolve(data));
+          })
+            .on("error", reject)
+            .end();
+        });
+
+        expect(JSON.parse(body).goal[1][1]).toBe("POLYANET");
+      } finally {
+        await server.close();
+      }
+    });
+
+    test("should reject when the port is already in use", async () => {
+      const first = new MockMegaverseServer({ goal });
+      const url = await first.listen(0);
+      const port = Number(new URL(url).port);
+
+      try {
+        const second = new MockMegaverseServer({ goal });
+        await expect(second.listen(port)).rejects.toThrow(
+          "EADDRINUSE"
+        );
+        await second.close(); // Nothing was bound, nothing to close
+      } finally {
+        await first.close();
+      }
+    });
+  });
+
+  describe("end to end with MegaverseBuilder", () => {
+    let builder: MegaverseBuilder;
+
+    afterEach(() => {
+      builder.stopAdjusting();
+    });
+
+    test("buildUniverse should make the map match the goal", async () => {
+      const server = new MockMegaverseServer({ goal });
+      builder = new MegaverseBuilder(
+        new MegaverseApiClient("abc", { fetch: server.fetch })
+      );
+
+      await builder.buildUniverse();
+
+      expect(server.grid).toEqual([
+        [{ type: 0 }, null, null],
+        [null, { type: 1, color: "red" }, null],
+        [null, null, { type: 2, direction: "up" }],
+      ]);
+    });
+
+    test("buildUniverse should create polyanets before their soloons", async () => {
+      const server = new MockMegaverseServer({
+        goal: [["WHITE_SOLOON", "POLYANET", "SPACE"]],
+        enforceRules: true,
+      });
+      builder = new MegaverseBuilder(
+        new MegaverseApiClient("abc", { fetch: server.fetch })
+      );
+
+      await builder.buildUniverse();
+
+      expect(server.grid).toEqual([
+        [{ type: 1, color: "white" }, { type: 0 }, null],
+      ]);
+    });
+
+    test("cleanUniverse should survive rate limits and dropped writes", async () => {
+      const server = new MockMegaverseServer({
+        goal,
+        current: [
+          [{ type: 0 }, { type: 0 }, null],
+          [null, { type: 1, color: "blue" }, null],
+          [{ type: 2, direction: "left" }, null, null],
+        ],
+        failures: {
+          rateLimitRate: 0.3,
+          retryAfterSeconds: 1,
+          dropWriteRate: 0.3,
+          methods: ["DELETE"],
+        },
+        random: sequence(0.5, 0.1, 0.9, 0.2, 0.7),
+      });
+      builder = new MegaverseBuilder(
+        new MegaverseApiClient("abc", { fetch: server.fetch })
+      );
+
+      await builder.cleanUniverse();
+
+      expect(server.grid.flat().every((cell) => cell === null)).toBe(
+        true
+      );
+      expect(
+        server.requests.filter((r) => r.method === "DELETE").length
+      ).toBeGreaterThan(4);
+    });
+  });
+});
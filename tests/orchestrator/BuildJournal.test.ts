@@ -0,0 +1,102 @@
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BuildJournal } from "../../src/orchestrator/BuildJournal";
+import { Operation } from "../../src/orchestrator/planReconciliation";
+
+describe("BuildJournal", () => {
+  let dir: string;
+  let journal: BuildJournal;
+
+  const a: Operation = {
+    kind: "create",
+    row: 0,
+    column: 0,
+    body: "POLYANET",
+  };
+  const b: Operation = {
+    kind: "create",
+    row: 0,
+    column: 1,
+    body: "RED_SOLOON",
+  };
+  const c: Operation = {
+    kind: "delete",
+    row: 1,
+    column: 1,
+    body: "UP_COMETH",
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "megaverse-journal-"));
+    journal = new BuildJournal(join(dir, "journal.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should read nothing when the file does not exist", () => {
+    expect(journal.read()).toEqual([]);
+    expect(journal.continueRun()).toBeUndefined();
+    expect(journal.outstanding()).toEqual([]);
+  });
+
+  test("should append one JSON line per event", () => {
+    journal.startRun();
+    journal.record("planned", a);
+    journal.record("attempted", a);
+    journal.record("failed", a, new Error("429 Too Many Requests"));
+
+    const entries = journal.read();
+    expect(entries.map((e) => e.event)).toEqual([
+      "planned",
+      "attempted",
+      "failed",
+    ]);
+    expect(entries[2].error).toBe("429 Too Many Requests");
+    expect(entries[2].op).toEqual(a);
+  });
+
+  test("should split operations into succeeded and outstanding", () => {
+    journal.startRun();
+    [a, b, c].forEach((op) => journal.record("planned", op));
+    journal.record("attempted", a);
+    journal.record("succeeded", a);
+    journal.record("attempted", b);
+    journal.record("failed", b, "boom");
+
+    expect(journal.succeeded()).toEqual([a]);
+    expect(journal.outstanding()).toEqual([b, c]);
+  });
+
+  test("should only consider the latest run", () => {
+    journal.startRun();
+    journal.record("planned", a);
+
+    const resumed = new BuildJournal(journal.file);
+    (resumed as any).run = "later-run";
+    resumed.record("planned", b);
+
+    expect(resumed.outstanding()).toEqual([b]);
+    expect(resumed.continueRun()).toBe("later-run");
+  });
+
+  test("should remember the target of the latest run", () => {
+    journal.startRun([["POLYANET"]]);
+    journal.record("planned", a);
+    expect(journal.target()).toEqual([["POLYANET"]]);
+    expect(journal.read()).toHaveLength(1);
+
+    journal.startRun(); // toward the API goal
+    expect(journal.target()).toBeUndefined();
+  });
+
+  test("should ignore a torn last line", () => {
+    journal.startRun();
+    journal.record("planned", a);
+    appendFileSync(journal.file, '{"run":"x","event":"plan');
+
+    expect(journal.read()).toHaveLength(1);
+  });
+});
@@ -2,30 +2,55 @@
  * Unit tests for MegaverseBuilder
  *
  * These tests exercise the public API (buildUniverse & cleanUniverse)
- * and some critical private helpers (isSame, createFromToken).
+ * and some critical private helpers (makeRetryOpts).
  *
  * All external dependencies are mocked so no real HTTP calls are made.
  */
 
-import { MegaverseBuilder } from "../../src/orchestrator/MegaverseBuilder";
+import {
+  BuilderEvent,
+  MegaverseBuilder,
+} from "../../src/orchestrator/MegaverseBuilder";
 import {
   IMegaverseApiClient,
   CurrentCell,
+  BadRequestError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
 } from "../../src/api/MegaverseApiClient";
+import { UniverseValidationError } from "../../src/domain/validateUniverse";
+import { Body } from "../../src/domain/models";
+import { BuildJournal } from "../../src/orchestrator/BuildJournal";
+import { FakeClock } from "../../src/utils/clock";
+import { retry } from "../../src/utils/retry";
+import { runtWithConcurrencyLimit } from "../../src/utils/concurrency";
+import { DEFAULT_CONFIG } from "../../src/config/loadConfig";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 // ──────────────────── Mock utilities ────────────────────
 
-jest.mock("../../src/utils/sleep", () => ({
-  sleep: jest.fn().mockResolvedValue(undefined),
-}));
-
 jest.mock("../../src/utils/concurrency", () => ({
   runtWithConcurrencyLimit: jest
     .fn()
     .mockImplementation(
-      async (tasks: Array<() => Promise<any>>, _limit: number) => {
+      async (
+        tasks: Array<() => Promise<any>>,
+        _limit: number,
+        signal?: AbortSignal
+      ) => {
         const results: Array<PromiseSettledResult<any>> = [];
         for (const t of tasks) {
+          if (signal?.aborted) {
+            results.push({
+              status: "rejected",
+              reason: signal.reason,
+            });
+            continue;
+          }
           try {
             results.push({
               status: "fulfilled",
@@ -49,28 +74,24 @@ jest.mock("../../src/utils/retry", () => ({
     .mockImplementation(async (fn: () => Promise<any>) => await fn()),
 }));
 
-jest.mock("../../src/utils/progressLogger", () => ({
-  createProgressLogger: jest.fn().mockImplementation(() => jest.fn()),
-}));
-
 // ──────────────────── Test suite ────────────────────
 
 describe("MegaverseBuilder", () => {
+  const POLYANET: Body = { kind: "polyanet" };
+  const RED_SOLOON: Body = { kind: "soloon", color: "red" };
+
   let mockApi: jest.Mocked<IMegaverseApiClient>;
   let builder: MegaverseBuilder;
+  let clock: FakeClock;
 
   beforeEach(() => {
-    jest.useFakeTimers(); // mute the internal adjustConcurrency timer
+    clock = new FakeClock(); // virtual time: pauses and timers are instant
 
     mockApi = {
       getGoalMap: jest.fn(),
       getCurrentMap: jest.fn(),
-      createPolyanet: jest.fn().mockResolvedValue(undefined),
-      deletePolyanet: jest.fn().mockResolvedValue(undefined),
-      createSoloon: jest.fn().mockResolvedValue(undefined),
-      deleteSoloon: jest.fn().mockResolvedValue(undefined),
-      createCometh: jest.fn().mockResolvedValue(undefined),
-      deleteCometh: jest.fn().mockResolvedValue(undefined),
+      createBody: jest.fn().mockResolvedValue(undefined),
+      deleteBody: jest.fn().mockResolvedValue(undefined),
     };
 
     // Silence console noise during tests
@@ -78,12 +99,11 @@ describe("MegaverseBuilder", () => {
     jest.spyOn(console, "warn").mockImplementation(() => {});
     jest.spyOn(console, "error").mockImplementation(() => {});
 
-    builder = new MegaverseBuilder(mockApi);
+    builder = new MegaverseBuilder(mockApi, { clock });
   });
 
   afterEach(() => {
     builder.stopAdjusting();
-    jest.useRealTimers();
     jest.restoreAllMocks();
   });
 
@@ -106,11 +126,14 @@ describe("MegaverseBuilder", () => {
       await builder.buildUniverse();
 
       // Don't test exact call count because syncWithGoal is called twice
-      expect(mockApi.createPolyanet).toHaveBeenCalledWith(0, 1);
-      expect(mockApi.createPolyanet).toHaveBeenCalledWith(1, 0);
-      expect(mockApi.createPolyanet).toHaveBeenCalledWith(1, 2);
-      expect(mockApi.createSoloon).not.toHaveBeenCalled();
-      expect(mockApi.createCometh).not.toHaveBeenCalled();
+      expect(mockApi.createBody).toHaveBeenCalledWith(0, 1, POLYANET);
+      expect(mockApi.createBody).toHaveBeenCalledWith(1, 0, POLYANET);
+      expect(mockApi.createBody).toHaveBeenCalledWith(1, 2, POLYANET);
+      expect(mockApi.createBody).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.not.objectContaining(POLYANET)
+      );
     });
 
     test("does nothing when goal map already matches current map", async () => {
@@ -131,9 +154,7 @@ describe("MegaverseBuilder", () => {
 
       await builder.buildUniverse();
 
-      expect(mockApi.createPolyanet).not.toHaveBeenCalled();
-      expect(mockApi.createSoloon).not.toHaveBeenCalled();
-      expect(mockApi.createCometh).not.toHaveBeenCalled();
+      expect(mockApi.createBody).not.toHaveBeenCalled();
     });
 
     test("removes wrong entities and creates correct ones", async () => {
@@ -155,12 +176,325 @@ describe("MegaverseBuilder", () => {
       await builder.buildUniverse();
 
       // Should delete the wrong entities
-      expect(mockApi.deleteSoloon).toHaveBeenCalledWith(0, 0);
-      expect(mockApi.deleteSoloon).toHaveBeenCalledWith(1, 1);
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(0, 0, "soloon");
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(1, 1, "soloon");
 
       // Should create the correct entities
-      expect(mockApi.createPolyanet).toHaveBeenCalledWith(0, 0);
-      expect(mockApi.createSoloon).toHaveBeenCalledWith(1, 1, "red");
+      expect(mockApi.createBody).toHaveBeenCalledWith(
+        0,
+        0,
+        POLYANET,
+        expect.anything()
+      );
+      expect(mockApi.createBody).toHaveBeenCalledWith(
+        1,
+        1,
+        RED_SOLOON,
+        expect.anything()
+      );
+    });
+  });
+
+  // ─────────────────── planUniverse ───────────────────
+
+  describe("planUniverse", () => {
+    test("lists deletes, creates and replacements without calling write APIs", async () => {
+      const goal = [
+        ["POLYANET", "SPACE", "SPACE"],
+        ["SPACE", "RED_SOLOON", "UP_COMETH"],
+      ];
+      const current: CurrentCell[][] = [
+        [null, { type: 0 }, null],
+        [
+          null,
+          { type: 1, color: "blue" },
+          { type: 2, direction: "up" },
+        ],
+      ];
+
+      mockApi.getGoalMap.mockResolvedValue(goal);
+      mockApi.getCurrentMap.mockResolvedValue(current);
+
+      const plan = await builder.planUniverse();
+
+      expect(plan).toEqual([
+        { kind: "delete", row: 0, column: 1, body: "POLYANET" },
+        { kind: "create", row: 0, column: 0, body: "POLYANET" },
+        {
+          kind: "replace",
+          row: 1,
+          column: 1,
+          body: "RED_SOLOON",
+          previous: "BLUE_SOLOON",
+        },
+      ]);
+
+      expect(mockApi.createBody).not.toHaveBeenCalled();
+      expect(mockApi.deleteBody).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─────────────────── validation ───────────────────
+
+  describe("validation", () => {
+    test("creates polyanets before the soloons that depend on them", async () => {
+      const goal = [["RED_SOLOON", "POLYANET", "BLUE_SOLOON"]];
+      const empty: CurrentCell[][] = [[null, null, null]];
+      const calls: string[] = [];
+
+      mockApi.getGoalMap.mockResolvedValue(goal);
+      mockApi.getCurrentMap.mockResolvedValue(empty);
+      mockApi.createBody.mockImplementation(async (r, c, body) => {
+        calls.push(`${body.kind} ${r},${c}`);
+      });
+
+      await builder.buildUniverse();
+
+      expect(calls[0]).toBe("polyanet 0,1");
+      expect(calls.slice(1, 3)).toEqual(["soloon 0,0", "soloon 0,2"]);
+    });
+
+    test("refuses to build a goal that breaks placement rules", async () => {
+      mockApi.getGoalMap.mockResolvedValue([
+        ["RED_SOLOON", "SPACE", "SPACE"],
+      ]);
+      mockApi.getCurrentMap.mockResolvedValue([[null, null, null]]);
+
+      await expect(builder.buildUniverse()).rejects.toThrow(
+        UniverseValidationError
+      );
+      expect(mockApi.createBody).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─────────────────── snapshot / restore ───────────────────
+
+  describe("snapshot and restore", () => {
+    test("snapshotUniverse returns the current map as goal tokens", async () => {
+      mockApi.getCurrentMap.mockResolvedValue([
+        [null, { type: 0 }],
+        [
+          { type: 1, color: "purple" },
+          { type: 2, direction: "right" },
+        ],
+      ]);
+
+      expect(await builder.snapshotUniverse()).toEqual([
+        ["SPACE", "POLYANET"],
+        ["PURPLE_SOLOON", "RIGHT_COMETH"],
+      ]);
+    });
+
+    test("restoreUniverse reconciles toward the saved map, not the goal", async () => {
+      mockApi.getCurrentMap.mockResolvedValue([[{ type: 0 }, null]]);
+
+      await builder.restoreUniverse([["SPACE", "POLYANET"]]);
+
+      expect(mockApi.getGoalMap).not.toHaveBeenCalled();
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(
+        0,
+        0,
+        "polyanet"
+      );
+      expect(mockApi.createBody).toHaveBeenCalledWith(0, 1, POLYANET);
+    });
+
+    test("restoreUniverse refuses a map of another size", async () => {
+      mockApi.getCurrentMap.mockResolvedValue([[null, null]]);
+
+      await expect(
+        builder.restoreUniverse([["POLYANET"]])
+      ).rejects.toThrow("map is 1×1 but the universe is 1×2");
+      expect(mockApi.createBody).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─────────────────── applyPlan ───────────────────
+
+  describe("applyPlan", () => {
+    test("should skip changes already made and send the rest", async () => {
+      mockApi.getCurrentMap.mockResolvedValue([
+        [{ type: 0 }, null, { type: 0 }],
+      ]);
+
+      await builder.applyPlan([
+        { kind: "create", row: 0, column: 0, body: "POLYANET" },
+        { kind: "create", row: 0, column: 1, body: "POLYANET" },
+        { kind: "delete", row: 0, column: 2, body: "POLYANET" },
+      ]);
+
+      expect(mockApi.getGoalMap).not.toHaveBeenCalled();
+      expect(mockApi.createBody).toHaveBeenCalledWith(0, 1, POLYANET);
+      expect(mockApi.createBody).not.toHaveBeenCalledWith(
+        0,
+        0,
+        POLYANET
+      );
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(
+        0,
+        2,
+        "polyanet"
+      );
+    });
+
+    test("should leave alone cells changed since the plan was made", async () => {
+      mockApi.getCurrentMap.mockResolvedValue([
+        [{ type: 2, direction: "up" }, null],
+      ]);
+
+      const result = await builder.applyPlan([
+        { kind: "create", row: 0, column: 0, body: "POLYANET" },
+        { kind: "create", row: 0, column: 5, body: "POLYANET" },
+      ]);
+
+      expect(result.ok).toBe(true);
+      expect(mockApi.createBody).not.toHaveBeenCalled();
+      expect(mockApi.deleteBody).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("2 planned cells changed")
+      );
+    });
+  });
+
+  // ─────────────────── resumeBuild ───────────────────
+
+  describe("resumeBuild", () => {
+    let dir: string;
+    let journal: BuildJournal;
+    let journaledBuilder: MegaverseBuilder;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "megaverse-resume-"));
+      journal = new BuildJournal(join(dir, "journal.jsonl"));
+      journaledBuilder = new MegaverseBuilder(mockApi, {
+        journal,
+        clock,
+      });
+    });
+
+    afterEach(() => {
+      journaledBuilder.stopAdjusting();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("journals every operation of a build", async () => {
+      mockApi.getGoalMap.mockResolvedValue([["POLYANET", "SPACE"]]);
+      mockApi.getCurrentMap.mockResolvedValue([[null, { type: 0 }]]);
+
+      await journaledBuilder.buildUniverse();
+
+      const events = journal.read().map((e) => e.event);
+      expect(events.slice(0, 3)).toEqual([
+        "planned",
+        "planned",
+        "attempted",
+      ]);
+      expect(events).toContain("succeeded");
+    });
+
+    test("replays only outstanding operations", async () => {
+      const done = {
+        kind: "create",
+        row: 0,
+        column: 0,
+        body: "POLYANET",
+      } as const;
+      const pending = {
+        kind: "create",
+        row: 0,
+        column: 1,
+        body: "RED_SOLOON",
+      } as const;
+      journal.startRun();
+      journal.record("planned", done);
+      journal.record("planned", pending);
+      journal.record("succeeded", done);
+
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "RED_SOLOON"],
+      ]);
+      mockApi.getCurrentMap
+        .mockResolvedValueOnce([[{ type: 0 }, null]])
+        .mockResolvedValue([
+          [{ type: 0 }, { type: 1, color: "red" }],
+        ]);
+
+      await journaledBuilder.resumeBuild();
+
+      expect(mockApi.createBody).toHaveBeenCalledTimes(1);
+      expect(mockApi.createBody).toHaveBeenCalledWith(
+        0,
+        1,
+        RED_SOLOON
+      );
+      expect(journal.outstanding()).toEqual([]);
+    });
+
+    test("falls back to a fresh diff when the live map diverged", async () => {
+      journal.startRun();
+      journal.record("succeeded", {
+        kind: "create",
+        row: 0,
+        column: 0,
+        body: "POLYANET",
+      });
+
+      // the polyanet the journal says exists is gone
+      mockApi.getGoalMap.mockResolvedValue([["POLYANET", "SPACE"]]);
+      mockApi.getCurrentMap.mockResolvedValue([[null, null]]);
+
+      await journaledBuilder.resumeBuild();
+
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("diverged")
+      );
+      expect(mockApi.createBody).toHaveBeenCalledWith(0, 0, POLYANET);
+    });
+
+    test("resumes an interrupted restore toward the saved map", async () => {
+      const saved = [["POLYANET", "SPACE", "SPACE"]];
+      const grid: CurrentCell[][] = [[null, { type: 0 }, null]];
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "POLYANET", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        grid.map((row) => [...row])
+      );
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        grid[r][c] = { type: 0 };
+      });
+      mockApi.deleteBody.mockImplementation(async (r, c) => {
+        grid[r][c] = null;
+      });
+      // Interrupted after the deletes: the create never happened
+      journal.startRun(saved);
+      journal.record("planned", {
+        kind: "delete",
+        row: 0,
+        column: 1,
+        body: "POLYANET",
+      });
+      journal.record("planned", {
+        kind: "create",
+        row: 0,
+        column: 0,
+        body: "POLYANET",
+      });
+
+      const result = await journaledBuilder.resumeBuild();
+
+      expect(result.ok).toBe(true);
+      expect(grid).toEqual([[{ type: 0 }, null, null]]);
+      expect(mockApi.getGoalMap).not.toHaveBeenCalled();
+    });
+
+    test("starts a fresh build when there is no journal", async () => {
+      mockApi.getGoalMap.mockResolvedValue([["POLYANET"]]);
+      mockApi.getCurrentMap.mockResolvedValue([[null]]);
+
+      await journaledBuilder.resumeBuild();
+
+      expect(mockApi.createBody).toHaveBeenCalledWith(0, 0, POLYANET);
     });
   });
 
@@ -186,54 +520,590 @@ describe("MegaverseBuilder", () => {
 
       await builder.cleanUniverse();
 
-      expect(mockApi.deletePolyanet).toHaveBeenCalledTimes(1);
-      expect(mockApi.deleteSoloon).toHaveBeenCalledTimes(1);
-      expect(mockApi.deleteCometh).toHaveBeenCalledTimes(1);
+      expect(mockApi.deleteBody).toHaveBeenCalledTimes(3);
 
-      expect(mockApi.deletePolyanet).toHaveBeenCalledWith(0, 1);
-      expect(mockApi.deleteSoloon).toHaveBeenCalledWith(1, 0);
-      expect(mockApi.deleteCometh).toHaveBeenCalledWith(1, 2);
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(
+        0,
+        1,
+        "polyanet"
+      );
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(1, 0, "soloon");
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(1, 2, "cometh");
     });
   });
 
-  // ─────────────────── internal helpers ───────────────────
+  // ─────────────────── errors ───────────────────
 
-  describe("internal helpers", () => {
-    test("isSame correctly distinguishes token/cell combinations", () => {
-      // Access private method via bracket notation
-      const isSame = (builder as any).isSame.bind(builder);
+  describe("errors", () => {
+    test("retries rate limits, server and network errors but not 4xx", () => {
+      const { shouldRetry } = (builder as any).makeRetryOpts({
+        kind: "delete",
+        body: "POLYANET",
+        row: 0,
+        column: 0,
+      });
 
-      expect(isSame("SPACE", null)).toBe(true);
-      expect(isSame("POLYANET", { type: 0 })).toBe(true);
-      expect(isSame("RED_SOLOON", { type: 1, color: "red" })).toBe(
-        true
-      );
       expect(
-        isSame("LEFT_COMETH", { type: 2, direction: "left" })
+        shouldRetry(new ServerError("boom", { status: 502 }))
       ).toBe(true);
+      expect(shouldRetry(new NetworkError("reset"))).toBe(true);
+      expect(
+        shouldRetry(new BadRequestError("bad row", { status: 400 }))
+      ).toBe(false);
+      // A 429 (by message only) is no longer mistaken for a rate limit
+      expect(shouldRetry(new Error("429 cells"))).toBe(false);
+      expect(
+        shouldRetry(new RateLimitedError("slow", { status: 429 }))
+      ).toBe(true);
+    });
 
-      // Mismatches
-      expect(isSame("POLYANET", null)).toBe(false);
-      expect(isSame("WHITE_SOLOON", { type: 1, color: "red" })).toBe(
-        false
-      );
+    test("sends map reads through retry with the builder's tuning", async () => {
+      (retry as jest.Mock).mockClear();
+      mockApi.getGoalMap.mockResolvedValue([["SPACE"]]);
+      mockApi.getCurrentMap.mockResolvedValue([[null]]);
+
+      await builder.buildUniverse();
+
+      // Nothing to write: every retried call is a map read
+      const reads = (retry as jest.Mock).mock.calls;
+      expect(reads.length).toBeGreaterThanOrEqual(2);
+      const [, opts] = reads[0];
+      expect(opts).toMatchObject({
+        retries: DEFAULT_CONFIG.retry.retries,
+        minTimeout: DEFAULT_CONFIG.retry.minTimeoutMs,
+        clock,
+      });
+      expect(
+        opts.shouldRetry(
+          new RateLimitedError("Goal map request failed (429)", {
+            status: 429,
+          })
+        )
+      ).toBe(true);
       expect(
-        isSame("UP_COMETH", { type: 2, direction: "left" })
+        opts.shouldRetry(
+          new NotFoundError("no such map", { status: 404 })
+        )
       ).toBe(false);
     });
 
-    test("createFromToken delegates to the correct API method", async () => {
-      const createFromToken = (builder as any).createFromToken.bind(
-        builder
+    test("reports non-retryable failures instead of hiding them", async () => {
+      mockApi.getGoalMap.mockResolvedValue([["POLYANET"]]);
+      mockApi.getCurrentMap.mockResolvedValue([[null]]);
+      mockApi.createBody.mockRejectedValue(
+        new BadRequestError("POST polyanets failed (400): bad row", {
+          status: 400,
+        })
+      );
+
+      await builder.buildUniverse();
+
+      expect(console.error).toHaveBeenCalledWith(
+        "🚫 Not retrying: POST polyanets failed (400): bad row"
+      );
+    });
+  });
+
+  // ─────────────────── partial failures ───────────────────
+
+  describe("partial failures", () => {
+    const goal = [["POLYANET", "POLYANET", "POLYANET"]];
+    let grid: CurrentCell[][];
+
+    beforeEach(() => {
+      grid = [[null, null, null]];
+      mockApi.getGoalMap.mockResolvedValue(goal);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        grid.map((row) => [...row])
+      );
+    });
+
+    test("verification fixes cells the main pass failed", async () => {
+      let flaky = 3; // first three calls fail
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        if (flaky-- > 0) {
+          throw new BadRequestError("try later", { status: 409 });
+        }
+        grid[r][c] = { type: 0 };
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(result.ok).toBe(true);
+      expect(result.wrongCells).toEqual([]);
+      expect(result.failed).toHaveLength(3);
+      expect(result.failed[0]).toEqual({
+        op: { kind: "create", row: 0, column: 0, body: "POLYANET" },
+        error: "try later",
+      });
+      expect(console.log).toHaveBeenCalledWith(
+        "✅ Map matches goal."
+      );
+    });
+
+    test("returns the cells still wrong after three fix-up sweeps", async () => {
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        if (c === 2) {
+          throw new BadRequestError("nope", { status: 400 });
+        }
+        grid[r][c] = { type: 0 };
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(result.ok).toBe(false);
+      expect(result.wrongCells).toEqual([
+        { kind: "create", row: 0, column: 2, body: "POLYANET" },
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "⚠ 1 of 3 cells could not be fixed."
+      );
+      expect(console.log).not.toHaveBeenCalledWith(
+        "✅ Map corrected."
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        "🛑 1 cells still differ from the goal after 3 attempts."
+      );
+    });
+
+    test("cleanUniverse reports objects it could not delete", async () => {
+      grid = [[{ type: 0 }, { type: 0 }, null]];
+      mockApi.deleteBody.mockImplementation(async (r, c) => {
+        if (c === 1) {
+          throw new BadRequestError("stuck", { status: 400 });
+        }
+        grid[r][c] = null;
+      });
+
+      const result = await builder.cleanUniverse();
+
+      expect(result.ok).toBe(false);
+      expect(result.wrongCells).toEqual([
+        { kind: "delete", row: 0, column: 1, body: "POLYANET" },
+      ]);
+      // main pass + three sweeps
+      expect(result.failed).toHaveLength(4);
+    });
+  });
+
+  // ─────────────────── dependency stages ───────────────────
+
+  describe("dependency stages", () => {
+    const goal = [["POLYANET", "RED_SOLOON"]];
+    let grid: CurrentCell[][];
+
+    beforeEach(() => {
+      grid = [[null, null]];
+      mockApi.getGoalMap.mockResolvedValue(goal);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        grid.map((row) => [...row])
+      );
+    });
+
+    test("lets the polyanets land before their soloons start", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "megaverse-stages-"));
+      const journal = new BuildJournal(join(dir, "journal.jsonl"));
+      const resumer = new MegaverseBuilder(mockApi, {
+        journal,
+        clock,
+      });
+      journal.startRun();
+      journal.record("planned", {
+        kind: "create",
+        row: 0,
+        column: 0,
+        body: "POLYANET",
+      });
+      journal.record("planned", {
+        kind: "create",
+        row: 0,
+        column: 1,
+        body: "RED_SOLOON",
+      });
+      (runtWithConcurrencyLimit as jest.Mock).mockClear();
+
+      try {
+        await resumer.resumeBuild();
+      } finally {
+        resumer.stopAdjusting();
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      // One call per stage, not one batch holding both
+      const batches = (
+        runtWithConcurrencyLimit as jest.Mock
+      ).mock.calls.map(([tasks]) => tasks.length);
+      expect(batches.slice(0, 2)).toEqual([1, 1]);
+      expect(mockApi.createBody.mock.calls.slice(0, 2)).toEqual([
+        [0, 0, POLYANET],
+        [0, 1, RED_SOLOON],
+      ]);
+    });
+
+    test("holds back a soloon whose polyanet failed", async () => {
+      mockApi.createBody.mockImplementation(async (_r, _c, body) => {
+        if (body.kind === "polyanet") {
+          throw new BadRequestError("nope", { status: 400 });
+        }
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(mockApi.createBody).not.toHaveBeenCalledWith(
+        0,
+        1,
+        RED_SOLOON
+      );
+      expect(result.ok).toBe(false);
+      expect(console.warn).toHaveBeenCalledWith(
+        "⏭️ Held back 1 operations whose placement rule isn't met yet."
+      );
+    });
+  });
+
+  // ─────────────────── unknown cells ───────────────────
+
+  describe("unknown cells", () => {
+    // What a "skip" client returns for a cell it could not read
+    const skippedAt = <T>(map: T[][], row: number, column: number) =>
+      Object.assign(map, { skipped: [{ row, column }] });
+
+    test("leaves a cell the current map skipped alone", async () => {
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        skippedAt([[null, { type: 0 }]], 0, 0)
+      );
+
+      const result = await builder.buildUniverse();
+
+      expect(mockApi.createBody).not.toHaveBeenCalled();
+      expect(result.ok).toBe(false);
+      expect(result.skipped).toEqual([{ row: 0, column: 0 }]);
+      expect(console.log).not.toHaveBeenCalledWith(
+        "✅ Map matches goal."
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        "⏭️ Left 1 cells with unknown contents alone."
+      );
+    });
+
+    test("keeps what sits where the goal map was skipped", async () => {
+      mockApi.getGoalMap.mockResolvedValue(
+        skippedAt([["SPACE", "POLYANET"]], 0, 0)
+      );
+      mockApi.getCurrentMap.mockResolvedValue([
+        [{ type: 0 }, { type: 0 }],
+      ]);
+
+      const result = await builder.buildUniverse();
+
+      expect(mockApi.deleteBody).not.toHaveBeenCalled();
+      expect(result.ok).toBe(false);
+      expect(result.wrongCells).toEqual([]);
+    });
+
+    test("cleanUniverse doesn't call a universe with unknown cells blue", async () => {
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        skippedAt([[null, { type: 0 }]], 0, 0)
+      );
+      mockApi.deleteBody.mockResolvedValue(undefined);
+
+      const result = await builder.cleanUniverse();
+
+      expect(mockApi.deleteBody).toHaveBeenCalledWith(
+        0,
+        1,
+        "polyanet"
+      );
+      expect(result.ok).toBe(false);
+      expect(result.skipped).toEqual([{ row: 0, column: 0 }]);
+      expect(console.log).not.toHaveBeenCalledWith(
+        "✅ Universe is fully blue."
+      );
+    });
+  });
+
+  // ─────────────────── idempotent writes ───────────────────
+
+  describe("idempotent writes", () => {
+    let grid: CurrentCell[][];
+
+    beforeEach(() => {
+      grid = [[null, null]];
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        grid.map((row) => [...row])
+      );
+    });
+
+    test("counts a create that landed despite a 5xx as done", async () => {
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        grid[r][c] = { type: 0 };
+        throw new ServerError("gateway timeout", { status: 504 });
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(result).toEqual({
+        ok: true,
+        cancelled: false,
+        failed: [],
+        wrongCells: [],
+        skipped: [],
+      });
+      // No resend and no fix-up sweep
+      expect(mockApi.createBody).toHaveBeenCalledTimes(2);
+      expect(console.log).toHaveBeenCalledWith(
+        "↩️ create POLYANET at [0,0] had already taken effect"
       );
+    });
+
+    test("treats deleting what is already gone as success", async () => {
+      grid = [[{ type: 0 }, null]];
+      mockApi.deleteBody.mockImplementation(async (r, c) => {
+        grid[r][c] = null; // someone else got there first
+        throw new NotFoundError("not found", { status: 404 });
+      });
+
+      const result = await builder.cleanUniverse();
+
+      expect(result.ok).toBe(true);
+      expect(result.failed).toEqual([]);
+      expect(mockApi.deleteBody).toHaveBeenCalledTimes(1);
+    });
+
+    test("checks each half of a replacement on its own", async () => {
+      grid = [[{ type: 1, color: "blue" }, { type: 0 }]];
+      mockApi.deleteBody.mockImplementation(async (r, c) => {
+        grid[r][c] = null;
+        throw new NetworkError("socket hang up");
+      });
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        grid[r][c] = { type: 0 };
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(result.ok).toBe(true);
+      expect(result.failed).toEqual([]);
+      expect(mockApi.deleteBody).toHaveBeenCalledTimes(1);
+      // The create half goes out even if Ctrl+C lands in between
+      expect(mockApi.createBody).toHaveBeenCalledWith(
+        0,
+        0,
+        POLYANET,
+        {
+          evenIfAborted: true,
+        }
+      );
+    });
+
+    test("does not re-read the map after a rate limit", async () => {
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        if (c === 1) {
+          throw new RateLimitedError("slow down", { status: 429 });
+        }
+        grid[r][c] = { type: 0 };
+      });
+      const reads = () => mockApi.getCurrentMap.mock.calls.length;
+
+      await builder.buildUniverse();
+
+      // seed + 4 verification reads, none extra
+      expect(reads()).toBe(5);
+    });
+  });
+
+  // ─────────────────── cached state ───────────────────
+
+  describe("cached state", () => {
+    test("a build reads the goal once and the map only to seed and verify", async () => {
+      const grid: CurrentCell[][] = [[null, null, null]];
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "SPACE", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockImplementation(async () =>
+        grid.map((row) => [...row])
+      );
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        grid[r][c] = { type: 0 };
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(result.ok).toBe(true);
+      expect(mockApi.getGoalMap).toHaveBeenCalledTimes(1);
+      expect(mockApi.getCurrentMap).toHaveBeenCalledTimes(2);
+      expect(await builder.state.current()).toEqual([
+        [{ type: 0 }, null, { type: 0 }],
+      ]);
+    });
+  });
+
+  // ─────────────────── cancellation ───────────────────
+
+  describe("cancellation", () => {
+    test("stops scheduling and returns what was left to do", async () => {
+      const controller = new AbortController();
+      builder = new MegaverseBuilder(mockApi, {
+        clock,
+        signal: controller.signal,
+      });
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "POLYANET", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockResolvedValue([[null, null, null]]);
+      mockApi.createBody.mockImplementationOnce(async () => {
+        controller.abort(); // Ctrl+C while the first request is in flight
+      });
+
+      const result = await builder.buildUniverse();
+
+      expect(mockApi.createBody).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        ok: false,
+        cancelled: true,
+        failed: [],
+        wrongCells: [
+          { kind: "create", row: 0, column: 1, body: "POLYANET" },
+          { kind: "create", row: 0, column: 2, body: "POLYANET" },
+        ],
+        skipped: [],
+      });
+      expect(builder.report()?.cancelled).toBe(true);
+      expect(builder.report()?.operations.polyanet).toEqual({
+        attempted: 1,
+        succeeded: 1,
+        failed: 0,
+      });
+      expect(console.warn).toHaveBeenCalledWith(
+        "✋ Stopped with 2 operations left to do."
+      );
+    });
+  });
 
-      await createFromToken("POLYANET", 0, 0);
-      await createFromToken("BLUE_SOLOON", 1, 1);
-      await createFromToken("DOWN_COMETH", 2, 2);
+  // ─────────────────── events ───────────────────
 
-      expect(mockApi.createPolyanet).toHaveBeenCalledWith(0, 0);
-      expect(mockApi.createSoloon).toHaveBeenCalledWith(1, 1, "blue");
-      expect(mockApi.createCometh).toHaveBeenCalledWith(2, 2, "down");
+  describe("events", () => {
+    test("announces each pass and every operation in it", async () => {
+      const events: BuilderEvent[] = [];
+      builder.stopAdjusting();
+      builder = new MegaverseBuilder(mockApi, {
+        clock,
+        onEvent: (e) => events.push(e),
+      });
+      mockApi.getCurrentMap
+        .mockResolvedValueOnce([[{ type: 0 }, null]])
+        .mockResolvedValue([[null, null]]);
+
+      await builder.cleanUniverse();
+
+      const op = {
+        kind: "delete",
+        row: 0,
+        column: 0,
+        body: "POLYANET",
+      };
+      expect(events).toEqual([
+        {
+          type: "phase-start",
+          label: "deleted",
+          ops: [op],
+          concurrency: 3,
+        },
+        { type: "op-start", op },
+        { type: "op-end", op, ok: true },
+        { type: "phase-end", label: "deleted" },
+      ]);
+    });
+  });
+
+  // ─────────────────── report ───────────────────
+
+  describe("report", () => {
+    test("is empty until a run starts", () => {
+      expect(builder.report()).toBeUndefined();
+    });
+
+    test("counts a build's operations and lists cells left wrong", async () => {
+      const grid: CurrentCell[][] = [[null, null]];
+      mockApi.getGoalMap.mockResolvedValue([
+        ["POLYANET", "POLYANET"],
+      ]);
+      mockApi.getCurrentMap.mockImplementation(async () => grid);
+      mockApi.createBody.mockImplementation(async (r, c) => {
+        if (c === 1) {
+          throw new BadRequestError("bad column", { status: 400 });
+        }
+        grid[r][c] = { type: 0 };
+      });
+
+      await builder.buildUniverse();
+      const report = builder.report()!;
+
+      expect(report.action).toBe("build");
+      // sync: both cells, create pass: [0,1], verification: 3 × [0,1]
+      expect(report.operations.polyanet).toEqual({
+        attempted: 6,
+        succeeded: 1,
+        failed: 5,
+      });
+      expect(report.requests).toBe(6);
+      expect(report.wrongCells).toEqual([
+        { kind: "create", row: 0, column: 1, body: "POLYANET" },
+      ]);
+    });
+
+    test("reports a clean with nothing left behind", async () => {
+      mockApi.getCurrentMap
+        .mockResolvedValueOnce([[{ type: 0 }, null]])
+        .mockResolvedValue([[null, null]]);
+
+      await builder.cleanUniverse();
+
+      expect(builder.report()).toMatchObject({
+        action: "clean",
+        operations: {
+          polyanet: { attempted: 1, succeeded: 1, failed: 0 },
+        },
+        concurrency: [{ atMs: 0, concurrency: 3 }],
+        wrongCells: [],
+      });
+    });
+  });
+
+  // ─────────────────── timing ───────────────────
+
+  describe("timing", () => {
+    test("pauses between batches on the injected clock", async () => {
+      const width = DEFAULT_CONFIG.batch.size + 5;
+      mockApi.getCurrentMap
+        .mockResolvedValueOnce([Array(width).fill({ type: 0 })])
+        .mockResolvedValue([Array(width).fill(null)]);
+
+      await builder.cleanUniverse();
+
+      expect(mockApi.deleteBody).toHaveBeenCalledTimes(width);
+      expect(clock.now()).toBe(DEFAULT_CONFIG.batch.delayMs);
+    });
+
+    test("adds a worker per quiet interval up to the maximum", async () => {
+      const { initial, max, adjustIntervalMs } =
+        DEFAULT_CONFIG.concurrency;
+
+      await clock.advance(adjustIntervalMs);
+      expect(console.log).toHaveBeenLastCalledWith(
+        `↔️ Concurrency now ${initial + 1}`
+      );
+
+      await clock.advance(adjustIntervalMs * 20);
+      expect(console.log).toHaveBeenLastCalledWith(
+        `↔️ Concurrency now ${max}`
+      );
     });
   });
 });
@@ -0,0 +1,109 @@
+import { UniverseState } from "../../src/orchestrator/UniverseState";
+import { CurrentCell } from "../../src/api/MegaverseApiClient";
+import { FakeClock } from "../../src/utils/clock";
+import { silentLogger } from "../../src/utils/logger";
+
+describe("UniverseState", () => {
+  let clock: FakeClock;
+  let grid: CurrentCell[][];
+  let api: {
+    getGoalMap: jest.Mock;
+    getCurrentMap: jest.Mock;
+  };
+
+  const state = (reconcileIntervalMs = 60_000) =>
+    new UniverseState(api, {
+      reconcileIntervalMs,
+      clock,
+      logger: silentLogger,
+    });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    grid = [[null, null]];
+    api = {
+      getGoalMap: jest
+        .fn()
+        .mockResolvedValue([["POLYANET", "SPACE"]]),
+      getCurrentMap: jest.fn(async () => grid.map((row) => [...row])),
+    };
+  });
+
+  test("seeds from one read and tracks operations as they land", async () => {
+    const universe = state();
+
+    expect(await universe.current()).toEqual([[null, null]]);
+    universe.applied({
+      kind: "create",
+      row: 0,
+      column: 1,
+      body: "RED_SOLOON",
+    });
+
+    expect(await universe.current()).toEqual([
+      [null, { type: 1, color: "red" }],
+    ]);
+    expect(api.getCurrentMap).toHaveBeenCalledTimes(1);
+  });
+
+  test("re-reads the server once the cache is older than the interval", async () => {
+    const universe = state(10_000);
+    await universe.current();
+
+    grid[0][0] = { type: 0 }; // changed behind our back
+    await clock.advance(9_999);
+    expect(await universe.current()).toEqual([[null, null]]);
+
+    await clock.advance(1);
+    expect(await universe.current()).toEqual([[{ type: 0 }, null]]);
+    expect(api.getCurrentMap).toHaveBeenCalledTimes(2);
+  });
+
+  test("keeps writes that landed while a read was in flight", async () => {
+    const universe = state();
+    await universe.current();
+
+    let respond!: () => void;
+    const stale = grid.map((row) => [...row]);
+    api.getCurrentMap.mockImplementationOnce(
+      () => new Promise((resolve) => (respond = () => resolve(stale)))
+    );
+    const read = universe.reconcile();
+    await new Promise((resolve) => setImmediate(resolve));
+    universe.applied({
+      kind: "create",
+      row: 0,
+      column: 0,
+      body: "POLYANET",
+    });
+    respond();
+
+    expect(await read).toEqual([[{ type: 0 }, null]]);
+  });
+
+  test("fetches the goal once", async () => {
+    const universe = state();
+
+    await Promise.all([universe.goal(), universe.goal()]);
+    await universe.goal();
+
+    expect(api.getGoalMap).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports cells the cache had wrong", async () => {
+    const info = jest.fn();
+    const universe = new UniverseState(api, {
+      clock,
+      logger: { ...silentLogger, info },
+    });
+    await universe.current();
+
+    grid[0] = [{ type: 0 }, { type: 2, direction: "up" }];
+    await universe.reconcile();
+
+    expect(info).toHaveBeenCalledWith(
+      "🔄 Cached map was off by 2 cells, reconciled with the server.",
+      { cells: 2 }
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  Operation,
+  dedupeOperations,
+  emptyGoalFor,
+  isSame,
+  planReconciliation,
+  sortOperations,
+} from "../../src/orchestrator/planReconciliation";
+import { CurrentCell } from "../../src/api/MegaverseApiClient";
+
+describe("planReconciliation", () => {
+  test("isSame correctly distinguishes token/cell combinations", () => {
+    expect(isSame("SPACE", null)).toBe(true);
+    expect(isSame("POLYANET", { type: 0 })).toBe(true);
+    expect(isSame("RED_SOLOON", { type: 1, color: "red" })).toBe(
+      true
+    );
+    expect(
+      isSame("LEFT_COMETH", { type: 2, direction: "left" })
+    ).toBe(true);
+
+    // Mismatches
+    expect(isSame("POLYANET", null)).toBe(false);
+    expect(isSame("WHITE_SOLOON", { type: 1, color: "red" })).toBe(
+      false
+    );
+    expect(isSame("UP_COMETH", { type: 2, direction: "left" })).toBe(
+      false
+    );
+  });
+
+  test("returns an empty plan when maps already match", () => {
+    const goal = [
+      ["SPACE", "POLYANET"],
+      ["RED_SOLOON", "LEFT_COMETH"],
+    ];
+    const current: CurrentCell[][] = [
+      [null, { type: 0 }],
+      [
+        { type: 1, color: "red" },
+        { type: 2, direction: "left" },
+      ],
+    ];
+
+    expect(planReconciliation(goal, current)).toEqual([]);
+  });
+
+  test("plans creates, deletes and replacements in row-major order", () => {
+    const goal = [
+      ["SPACE", "POLYANET"],
+      ["UP_COMETH", "RED_SOLOON"],
+    ];
+    const current: CurrentCell[][] = [
+      [{ type: 0 }, null],
+      [null, { type: 1, color: "blue" }],
+    ];
+
+    expect(planReconciliation(goal, current)).toEqual([
+      { kind: "delete", row: 0, column: 0, body: "POLYANET" },
+      { kind: "create", row: 0, column: 1, body: "POLYANET" },
+      { kind: "create", row: 1, column: 0, body: "UP_COMETH" },
+      {
+        kind: "replace",
+        row: 1,
+        column: 1,
+        body: "RED_SOLOON",
+        previous: "BLUE_SOLOON",
+      },
+    ]);
+  });
+
+  test("plans deleting everything against an empty goal", () => {
+    const current: CurrentCell[][] = [
+      [null, { type: 2, direction: "down" }],
+      [{ type: 1, color: "white" }, null],
+    ];
+
+    expect(
+      planReconciliation(emptyGoalFor(current), current)
+    ).toEqual([
+      { kind: "delete", row: 0, column: 1, body: "DOWN_COMETH" },
+      { kind: "delete", row: 1, column: 0, body: "WHITE_SOLOON" },
+    ]);
+  });
+
+  test("treats unknown goal tokens as SPACE", () => {
+    expect(planReconciliation([["NEBULA"]], [[null]])).toEqual([]);
+  });
+
+  test("sortOperations puts deletes first, then replacements, then creates", () => {
+    const ops: Operation[] = [
+      { kind: "create", row: 0, column: 0, body: "POLYANET" },
+      {
+        kind: "replace",
+        row: 1,
+        column: 0,
+        body: "POLYANET",
+        previous: "UP_COMETH",
+      },
+      { kind: "delete", row: 2, column: 1, body: "POLYANET" },
+      { kind: "delete", row: 2, column: 0, body: "POLYANET" },
+    ];
+
+    expect(
+      sortOperations(ops).map((op) => [op.kind, op.row, op.column])
+    ).toEqual([
+      ["delete", 2, 0],
+      ["delete", 2, 1],
+      ["replace", 1, 0],
+      ["create", 0, 0],
+    ]);
+  });
+
+  test("dedupeOperations keeps the last operation for each cell", () => {
+    const ops: Operation[] = [
+      { kind: "create", row: 0, column: 0, body: "POLYANET" },
+      { kind: "create", row: 0, column: 1, body: "POLYANET" },
+      { kind: "create", row: 0, column: 0, body: "RED_SOLOON" },
+    ];
+
+    expect(dedupeOperations(ops)).toEqual([
+      { kind: "create", row: 0, column: 1, body: "POLYANET" },
+      { kind: "create", row: 0, column: 0, body: "RED_SOLOON" },
+    ]);
+  });
+});
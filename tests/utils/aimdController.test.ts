@@ -0,0 +1,211 @@
+import {
+  AimdController,
+  AimdOptions,
+} from "../../src/utils/aimdController";
+import { Clock } from "../../src/utils/clock";
+
+describe("AimdController", () => {
+  let now: number;
+  // Only `now` matters here; time is set directly by each test
+  const clock = { now: () => now } as Clock;
+
+  const controller = (options: Partial<AimdOptions> = {}) =>
+    new AimdController({
+      initial: 4,
+      min: 0.5,
+      max: 6,
+      increase: 1,
+      decrease: 0.5,
+      quietPeriodMs: 1_000,
+      clock,
+      ...options,
+    });
+
+  const headers = (values: Record<string, string>) =>
+    new Headers(values);
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  describe("additive increase", () => {
+    test("should add one step per quiet period", () => {
+      const aimd = controller();
+
+      now = 999;
+      expect(aimd.record({ status: 200 })).toBe(4);
+      now = 1_000;
+      expect(aimd.record({ status: 200 })).toBe(5);
+      now = 1_500;
+      expect(aimd.record({ status: 200 })).toBe(5);
+      now = 2_000;
+      expect(aimd.record({ status: 200 })).toBe(6);
+    });
+
+    test("should stop at max", () => {
+      const aimd = controller({ initial: 6 });
+
+      now = 5_000;
+      expect(aimd.record({ status: 200 })).toBe(6);
+    });
+
+    test("should wait a full quiet period after congestion", () => {
+      const aimd = controller();
+
+      now = 5_000;
+      aimd.record({ status: 429 });
+      now = 5_900;
+      expect(aimd.record({ status: 200 })).toBe(2);
+      now = 6_000;
+      expect(aimd.record({ status: 200 })).toBe(3);
+    });
+  });
+
+  describe("multiplicative decrease", () => {
+    test.each([
+      [{ status: 429 }],
+      [{ status: 503 }],
+      [{ timedOut: true }],
+    ])("should halve on %j", (sample) => {
+      expect(controller().record(sample)).toBe(2);
+    });
+
+    test("should ignore errors that are not congestion", () => {
+      expect(controller().record({ status: 400 })).toBe(4);
+      expect(controller().record({ status: 500 })).toBe(4);
+    });
+
+    test("should cut once per cooldown for a burst of 429s", () => {
+      const aimd = controller({ cooldownMs: 500 });
+
+      aimd.record({ status: 429 });
+      aimd.record({ status: 429 });
+      now = 499;
+      expect(aimd.record({ status: 429 })).toBe(2);
+      now = 500;
+      expect(aimd.record({ status: 429 })).toBe(1);
+    });
+
+    test("should never go below min", () => {
+      const aimd = controller({ cooldownMs: 0 });
+
+      for (let i = 0; i < 10; i++) aimd.record({ status: 429 });
+
+      expect(aimd.limit).toBe(0.5);
+    });
+  });
+
+  describe("latency", () => {
+    test("should report nearest-rank percentiles over the window", () => {
+      const aimd = controller({ latencyWindow: 4 });
+
+      [900, 100, 200, 300, 400].forEach((latencyMs) =>
+        aimd.record({ status: 200, latencyMs })
+      );
+
+      // 900 fell out of the window
+      expect(aimd.latencyPercentile(50)).toBe(200);
+      expect(aimd.latencyPercentile(95)).toBe(400);
+    });
+
+    test("should treat a slow p95 as congestion", () => {
+      const aimd = controller({ latencyTargetMs: 250 });
+
+      expect(aimd.record({ status: 200, latencyMs: 200 })).toBe(4);
+      expect(aimd.record({ status: 200, latencyMs: 300 })).toBe(2);
+    });
+
+    test("should know nothing before the first sample", () => {
+      expect(controller().latencyPercentile(99)).toBe(0);
+    });
+  });
+
+  describe("headers", () => {
+    test("should pause for Retry-After seconds", () => {
+      const aimd = controller();
+
+      aimd.record({
+        status: 429,
+        headers: headers({ "Retry-After": "2" }),
+      });
+
+      expect(aimd.pausedForMs()).toBe(2_000);
+      now = 1_500;
+      expect(aimd.pausedForMs()).toBe(500);
+    });
+
+    test("should pause until a Retry-After date", () => {
+      now = Date.parse("2024-01-01T00:00:00Z");
+      const aimd = controller();
+
+      aimd.record({
+        status: 503,
+        headers: headers({
+          "Retry-After": "Mon, 01 Jan 2024 00:00:05 GMT",
+        }),
+      });
+
+      expect(aimd.pausedForMs()).toBe(5_000);
+    });
+
+    test("should pause until the reset when the budget is spent", () => {
+      const aimd = controller();
+
+      aimd.record({
+        status: 200,
+        headers: headers({
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": "4",
+        }),
+      });
+
+      expect(aimd.pausedForMs()).toBe(4_000);
+      expect(aimd.limit).toBe(4);
+    });
+
+    test("should spread the remaining budget until the reset", () => {
+      const aimd = controller();
+
+      aimd.record({
+        status: 200,
+        headers: headers({
+          "RateLimit-Remaining": "6",
+          "RateLimit-Reset": "4",
+        }),
+      });
+
+      expect(aimd.limit).toBe(1.5);
+    });
+
+    test("should read an epoch-seconds reset", () => {
+      now = 1_700_000_000_000;
+      const aimd = controller();
+
+      aimd.record({
+        status: 200,
+        headers: headers({
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": "1700000010",
+        }),
+      });
+
+      expect(aimd.pausedForMs()).toBe(10_000);
+    });
+
+    test("should ignore garbage header values", () => {
+      const aimd = controller();
+
+      aimd.record({
+        status: 200,
+        headers: headers({
+          "Retry-After": "soon",
+          "X-RateLimit-Remaining": "lots",
+          "X-RateLimit-Reset": "4",
+        }),
+      });
+
+      expect(aimd.pausedForMs()).toBe(0);
+      expect(aimd.limit).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  FakeClock,
+  createSystemClock,
+  seededRandom,
+} from "../../src/utils/clock";
+
+describe("seededRandom", () => {
+  test("should repeat the same sequence for the same seed", () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const c = seededRandom(43);
+
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((x) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  });
+
+  test("should drive a seeded system clock", () => {
+    expect(createSystemClock(7).random()).toBe(seededRandom(7)());
+  });
+});
+
+describe("FakeClock", () => {
+  test("should jump straight to the deadline of a sleep", async () => {
+    const clock = new FakeClock({ start: 1_000 });
+
+    await clock.sleep(60 * 60 * 1_000);
+
+    expect(clock.now()).toBe(1_000 + 60 * 60 * 1_000);
+  });
+
+  test("should wake concurrent sleepers in deadline order", async () => {
+    const clock = new FakeClock();
+    const woke: string[] = [];
+    const nap = async (name: string, ms: number) => {
+      await clock.sleep(ms);
+      woke.push(`${name}@${clock.now()}`);
+    };
+
+    await Promise.all([
+      nap("slow", 300),
+      nap("fast", 100),
+      nap("mid", 200),
+    ]);
+
+    expect(woke).toEqual(["fast@100", "mid@200", "slow@300"]);
+  });
+
+  test("should cut a sleep short when its signal aborts", async () => {
+    const clock = new FakeClock();
+    const controller = new AbortController();
+
+    const nap = clock.sleep(60_000, controller.signal);
+    controller.abort(new Error("stop"));
+
+    await expect(nap).rejects.toThrow("stop");
+    expect(clock.pendingSleeps).toBe(0);
+    expect(clock.now()).toBe(0);
+  });
+
+  test("should fire intervals as time passes a sleep", async () => {
+    const clock = new FakeClock();
+    const ticks: number[] = [];
+    const stop = clock.setInterval(() => ticks.push(clock.now()), 40);
+
+    await clock.sleep(130);
+    stop();
+    await clock.sleep(100);
+
+    expect(ticks).toEqual([40, 80, 120]);
+  });
+
+  test("should not run on intervals alone", async () => {
+    const clock = new FakeClock();
+    const tick = jest.fn();
+    clock.setInterval(tick, 10);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(tick).not.toHaveBeenCalled();
+    expect(clock.now()).toBe(0);
+  });
+
+  test("should advance manually through timers", async () => {
+    const clock = new FakeClock();
+    const tick = jest.fn();
+    clock.setInterval(tick, 10);
+
+    await clock.advance(35);
+
+    expect(tick).toHaveBeenCalledTimes(3);
+    expect(clock.now()).toBe(35);
+  });
+
+  test("should replay randomness from its seed", () => {
+    const a = new FakeClock({ seed: 5 });
+    const b = new FakeClock({ seed: 5 });
+
+    expect([a.random(), a.random()]).toEqual([
+      b.random(),
+      b.random(),
+    ]);
+  });
+});
@@ -1,18 +1,6 @@
 import { runtWithConcurrencyLimit } from "../../src/utils/concurrency";
-import { sleep } from "../../src/utils/sleep";
-
-// Mock the sleep utility
-jest.mock("../../src/utils/sleep", () => ({
-  sleep: jest.fn().mockResolvedValue(undefined),
-}));
 
 describe("concurrency utility", () => {
-  beforeEach(() => {
-    jest.clearAllMocks();
-    // Spy on console.log for rate limiter adjustments
-    jest.spyOn(console, "log").mockImplementation(() => {});
-  });
-
   test("should execute tasks with concurrency limit", async () => {
     // Create test tasks that track when they're executed
     const executeOrder: number[] = [];
@@ -56,26 +44,46 @@ describe("concurrency utility", () => {
     expect(results[2].status).toBe("fulfilled");
   });
 
-  test("should adjust rate limiter when encountering 429 errors", async () => {
-    const tasks = [
-      async () => "success",
-      async () => {
-        throw new Error("429 Rate limit exceeded");
-      },
-      async () => "success again",
-    ];
+  test("should never run more than `limit` tasks at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const tasks = [0, 1, 2, 3, 4, 5].map(() => async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      running--;
+    });
 
-    const results = await runtWithConcurrencyLimit(tasks, 2);
+    await runtWithConcurrencyLimit(tasks, 2);
 
-    // Check that console.log was called for rate limiter adjustment
-    expect(console.log).toHaveBeenCalledWith(
-      expect.stringContaining("Slowing down")
+    expect(peak).toBe(2);
+  });
+
+  test("should start nothing new once the signal aborts", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const tasks = [0, 1, 2, 3].map((i) => async () => {
+      started.push(i);
+      if (i === 1) controller.abort(new Error("stop"));
+      return i;
+    });
+
+    const results = await runtWithConcurrencyLimit(
+      tasks,
+      2,
+      controller.signal
     );
 
-    // Check results
-    expect(results.length).toBe(3);
-    expect(results[0].status).toBe("fulfilled");
-    expect(results[1].status).toBe("rejected");
-    expect(results[2].status).toBe("fulfilled");
+    // Both running tasks finish; the rest never start
+    expect(started).toEqual([0, 1]);
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+      "rejected",
+    ]);
+    expect((results[2] as PromiseRejectedResult).reason).toEqual(
+      new Error("stop")
+    );
   });
 });
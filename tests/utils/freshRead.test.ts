@@ -0,0 +1,47 @@
+import { freshReader } from "../../src/utils/freshRead";
+
+describe("freshReader", () => {
+  test("shares one read between calls made together", async () => {
+    const read = jest.fn().mockResolvedValue("map");
+    const fresh = freshReader(read);
+
+    const results = await Promise.all([fresh(), fresh(), fresh()]);
+
+    expect(results).toEqual(["map", "map", "map"]);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  test("never answers with a read that started before the call", async () => {
+    let finish!: (value: number) => void;
+    const read = jest
+      .fn()
+      .mockImplementationOnce(
+        () => new Promise<number>((resolve) => (finish = resolve))
+      )
+      .mockResolvedValueOnce(2);
+    const fresh = freshReader(read);
+
+    const first = fresh();
+    await Promise.resolve(); // first read is now in flight
+    await Promise.resolve();
+    const second = fresh();
+    const third = fresh();
+    finish(1);
+
+    expect(await first).toBe(1);
+    expect(await second).toBe(2);
+    expect(await third).toBe(2);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  test("reads again after a failed read", async () => {
+    const read = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValueOnce("map");
+    const fresh = freshReader(read);
+
+    await expect(fresh()).rejects.toThrow("offline");
+    await expect(fresh()).resolves.toBe("map");
+  });
+});
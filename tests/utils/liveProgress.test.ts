@@ -0,0 +1,122 @@
+import { LiveProgress } from "../../src/utils/liveProgress";
+import { FakeClock } from "../../src/utils/clock";
+import { Operation } from "../../src/orchestrator/planReconciliation";
+
+describe("LiveProgress", () => {
+  const polyanet = (column: number): Operation => ({
+    kind: "create",
+    row: 0,
+    column,
+    body: "POLYANET",
+  });
+  const soloon: Operation = {
+    kind: "create",
+    row: 1,
+    column: 0,
+    body: "RED_SOLOON",
+  };
+  const ops = [polyanet(0), polyanet(1), polyanet(2), soloon];
+
+  let clock: FakeClock;
+  let stream: { isTTY: boolean; write: jest.Mock };
+  let logger: {
+    debug: jest.Mock;
+    info: jest.Mock;
+    warn: jest.Mock;
+    error: jest.Mock;
+    child: jest.Mock;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    stream = { isTTY: true, write: jest.fn() };
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+  });
+
+  test("keeps one line with counts, rate, retries and ETA", async () => {
+    const progress = new LiveProgress({ stream, logger, clock });
+    progress.handle({
+      type: "phase-start",
+      label: "created",
+      ops,
+      concurrency: 3,
+    });
+
+    await clock.advance(1_000);
+    progress.handle({ type: "op-end", op: polyanet(0), ok: true });
+    await clock.advance(1_000);
+    progress.handle({ type: "op-end", op: soloon, ok: true });
+    progress.handle({
+      type: "retry",
+      op: polyanet(1),
+      attempt: 1,
+      delayMs: 3_000,
+    });
+
+    // 2 done in 2s → 1 op/s: 2 left take 2s, plus 3s of backoff
+    expect(progress.line()).toBe(
+      "⏳ created 2/4 · polyanet 1/3 soloon 1/1 · 3 workers · 1.0 req/s · 1 retrying · ETA 5s"
+    );
+    // Redraws are throttled: the retry came too soon after the last one
+    expect(stream.write).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^\r\x1b\[2K⏳ created 2\/4 .* ETA 2s$/)
+    );
+  });
+
+  test("clears the line around log output and ends it with the phase", () => {
+    const progress = new LiveProgress({ stream, logger, clock });
+    progress.handle({
+      type: "phase-start",
+      label: "deleted",
+      ops,
+      concurrency: 2,
+    });
+    stream.write.mockClear();
+
+    progress.logger.warn("⚙️ Slowing down");
+
+    expect(stream.write.mock.calls.map(([chunk]) => chunk)).toEqual([
+      "\r\x1b[2K",
+      "\r\x1b[2K" + progress.line(),
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "⚙️ Slowing down",
+      undefined
+    );
+
+    progress.handle({ type: "phase-end", label: "deleted" });
+    expect(stream.write).toHaveBeenLastCalledWith("\n");
+    expect(progress.line()).toBe("");
+  });
+
+  test("falls back to periodic lines when not on a TTY", () => {
+    stream.isTTY = false;
+    const progress = new LiveProgress({
+      stream,
+      logger,
+      clock,
+      interval: 2,
+    });
+    progress.handle({
+      type: "phase-start",
+      label: "created",
+      ops,
+      concurrency: 3,
+    });
+
+    for (const op of ops)
+      progress.handle({ type: "op-end", op, ok: true });
+
+    expect(stream.write).not.toHaveBeenCalled();
+    expect(logger.info.mock.calls.map(([line]) => line)).toEqual([
+      "🚀 created: 2/4 (50%)",
+      "🚀 created: 4/4 (100%)",
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { createLogger, silentLogger } from "../../src/utils/logger";
+import { ApiError } from "../../src/api/errors";
+
+describe("logger", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("prints just the message to the console method of its level", () => {
+    const logger = createLogger();
+
+    logger.info("🚀 hello", { row: 1 });
+    logger.warn("careful");
+    logger.error("broken");
+
+    expect(console.log).toHaveBeenCalledWith("🚀 hello");
+    expect(console.warn).toHaveBeenCalledWith("careful");
+    expect(console.error).toHaveBeenCalledWith("broken");
+  });
+
+  test("drops lines below the configured level", () => {
+    const logger = createLogger({ level: "warn" });
+
+    logger.debug("noise");
+    logger.info("chatter");
+    logger.warn("kept");
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  test("hides debug lines by default", () => {
+    createLogger().debug("noise");
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test("writes one JSON object per line with context and fields", () => {
+    const logger = createLogger({
+      format: "json",
+      now: () => 0,
+    }).child({ operation: "create" });
+
+    logger.warn("retrying", {
+      row: 2,
+      column: 3,
+      error: new ApiError("POST failed (500)", { status: 500 }),
+    });
+
+    expect(
+      JSON.parse((console.warn as jest.Mock).mock.calls[0][0])
+    ).toEqual({
+      time: "1970-01-01T00:00:00.000Z",
+      level: "warn",
+      msg: "retrying",
+      operation: "create",
+      row: 2,
+      column: 3,
+      error: {
+        name: "ApiError",
+        message: "POST failed (500)",
+        status: 500,
+      },
+    });
+  });
+
+  test("sends info to stderr when stdout is reserved", () => {
+    createLogger({ stderr: true }).info("status");
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith("status");
+  });
+
+  test("silentLogger swallows everything", () => {
+    silentLogger.child({ a: 1 }).error("gone");
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { readMapFile, writeMapFile } from "../../src/utils/mapFile";
+
+describe("mapFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "megaverse-map-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should round-trip a map through a file", () => {
+    const file = join(dir, "map.json");
+    const map = [
+      ["POLYANET", "SPACE"],
+      ["RED_SOLOON", "UP_COMETH"],
+    ];
+
+    writeMapFile(file, map);
+
+    expect(readMapFile(file)).toEqual(map);
+    expect(readFileSync(file, "utf8").split("\n")[1]).toBe(
+      '  ["POLYANET","SPACE"],'
+    );
+  });
+
+  test("should accept an API-style goal object", () => {
+    const file = join(dir, "goal.json");
+    writeFileSync(file, JSON.stringify({ goal: [["SPACE"]] }));
+
+    expect(readMapFile(file)).toEqual([["SPACE"]]);
+  });
+
+  test("should reject files that are not maps", () => {
+    const file = join(dir, "bad.json");
+    writeFileSync(file, JSON.stringify({ rows: 3 }));
+
+    expect(() => readMapFile(file)).toThrow("is not a map");
+  });
+});
@@ -0,0 +1,110 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  printPlan,
+  readPlanFile,
+  summarizePlan,
+} from "../../src/utils/planReport";
+import { Operation } from "../../src/orchestrator/planReconciliation";
+
+describe("planReport", () => {
+  const plan: Operation[] = [
+    { kind: "create", row: 0, column: 1, body: "POLYANET" },
+    { kind: "create", row: 1, column: 1, body: "RED_SOLOON" },
+    { kind: "delete", row: 2, column: 0, body: "UP_COMETH" },
+    {
+      kind: "replace",
+      row: 2,
+      column: 2,
+      body: "BLUE_SOLOON",
+      previous: "POLYANET",
+    },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should count actions per object type", () => {
+    expect(summarizePlan(plan)).toEqual({
+      polyanet: { create: 1, delete: 0, replace: 0 },
+      soloon: { create: 1, delete: 0, replace: 1 },
+      cometh: { create: 0, delete: 1, replace: 0 },
+    });
+  });
+
+  test("should print summary and one line per cell", () => {
+    printPlan(plan);
+
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("4 cells to change")
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("[2,0] delete UP_COMETH")
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("[2,2] replace POLYANET → BLUE_SOLOON")
+    );
+  });
+
+  test("should report when there is nothing to do", () => {
+    printPlan([]);
+
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("Nothing to do")
+    );
+  });
+
+  describe("readPlanFile", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "megaverse-plan-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should read the changes of a saved plan", () => {
+      const file = join(dir, "plan.json");
+      writeFileSync(
+        file,
+        JSON.stringify({ candidateId: "id", changes: plan })
+      );
+
+      expect(readPlanFile(file)).toEqual(plan);
+    });
+
+    test.each([
+      [{ goal: [] }, 'no "changes" list'],
+      [
+        {
+          changes: [
+            { kind: "create", row: -1, column: 0, body: "POLYANET" },
+          ],
+        },
+        "change 0 is not a valid operation",
+      ],
+      [
+        {
+          changes: [
+            { kind: "replace", row: 0, column: 0, body: "POLYANET" },
+          ],
+        },
+        "change 0 is not a valid operation",
+      ],
+    ])("should reject %j", (content, message) => {
+      const file = join(dir, "plan.json");
+      writeFileSync(file, JSON.stringify(content));
+
+      expect(() => readPlanFile(file)).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { RateLimiter } from "../../src/utils/rateLimiter";
+import { FakeClock } from "../../src/utils/clock";
+
+describe("RateLimiter", () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    clock = new FakeClock();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should let a full bucket through without waiting", async () => {
+    const limiter = new RateLimiter(3, 1, { clock });
+
+    await limiter.getToken();
+    await limiter.getToken();
+    await limiter.getToken();
+
+    expect(clock.now()).toBe(0);
+  });
+
+  test("should queue concurrent callers one interval apart", async () => {
+    const limiter = new RateLimiter(1, 2, { clock }); // then 1 per 500ms
+    const granted: number[] = [];
+    const take = async () => {
+      await limiter.getToken();
+      granted.push(clock.now());
+    };
+
+    await Promise.all([take(), take(), take()]);
+
+    expect(granted).toEqual([0, 500, 1000]);
+    expect(limiter.requestsSent).toBe(3);
+  });
+
+  test("should total waits, latency and 429s for run reports", async () => {
+    const limiter = new RateLimiter(1, 2, { clock }); // then 1 per 500ms
+
+    await limiter.getToken();
+    limiter.record({ status: 200, latencyMs: 40 });
+    await limiter.getToken(); // waits for the next slot
+    limiter.record({ status: 429, latencyMs: 10 });
+
+    expect(limiter.totals).toEqual({
+      requests: 2,
+      waitingMs: 500,
+      inFlightMs: 50,
+      rateLimited: 1,
+    });
+  });
+
+  test("should keep a slowdown for later callers", async () => {
+    const limiter = new RateLimiter(1, 2, { clock });
+
+    limiter.record({ status: 429 });
+    await limiter.getToken();
+    await limiter.getToken();
+
+    expect(limiter.requestsPerSecond).toBe(1);
+    expect(clock.now()).toBe(1000);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("Slowing down")
+    );
+  });
+
+  test("should win the rate back after a quiet period", async () => {
+    const limiter = new RateLimiter(1, 2, {
+      clock,
+      increase: 0.5,
+      quietPeriodMs: 1_000,
+    });
+
+    limiter.record({ status: 429 });
+    await clock.advance(1_000);
+    limiter.record({ status: 200 });
+
+    expect(limiter.requestsPerSecond).toBe(1.5);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("Speeding up")
+    );
+  });
+
+  test("should hold every caller while the server asks to wait", async () => {
+    const limiter = new RateLimiter(5, 1, { clock });
+
+    limiter.record({
+      status: 429,
+      headers: new Headers({ "retry-after": "3" }),
+    });
+    await limiter.getToken();
+
+    expect(clock.now()).toBe(3_000);
+  });
+
+  test("should simulate an hour of traffic instantly", async () => {
+    const limiter = new RateLimiter(1, 1, { clock, max: 1 });
+
+    for (let i = 0; i < 3_600; i++) await limiter.getToken();
+
+    expect(clock.now()).toBe(3_599_000);
+  });
+});
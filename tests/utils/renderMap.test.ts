@@ -0,0 +1,76 @@
+import { CurrentCell } from "../../src/api/MegaverseApiClient";
+import { CELLS } from "../../src/domain/models";
+import {
+  currentToTokens,
+  isFancyOutput,
+  renderDiff,
+  renderMap,
+} from "../../src/utils/renderMap";
+
+describe("renderMap", () => {
+  const goal = [
+    ["POLYANET", "SPACE", "SPACE"],
+    ["RED_SOLOON", "UP_COMETH", "SPACE"],
+  ];
+  const current: CurrentCell[][] = [
+    [null, { type: 0 }, null],
+    [{ type: 1, color: "red" }, { type: 2, direction: "down" }, null],
+  ];
+
+  test("should render plain ASCII by default", () => {
+    expect(renderMap(goal)).toBe("P . .\nr ^ .");
+  });
+
+  test("should render emoji in fancy mode", () => {
+    const out = renderMap(goal, { fancy: true });
+
+    expect(out).toContain("🪐");
+    expect(out).toContain("🔴");
+    expect(out).toContain("⬆️");
+  });
+
+  test("should have an emoji for every registered cell", () => {
+    const out = renderMap([[...CELLS]], { fancy: true });
+
+    expect(out).not.toContain("❓");
+  });
+
+  test("should convert the current map to tokens", () => {
+    expect(currentToTokens(current)).toEqual([
+      ["SPACE", "POLYANET", "SPACE"],
+      ["RED_SOLOON", "DOWN_COMETH", "SPACE"],
+    ]);
+  });
+
+  test("should mark missing, extra and wrong cells in the diff", () => {
+    const lines = renderDiff(goal, current).split("\n");
+
+    expect(lines[0]).toBe("P . .  |  . P .  |  + - .");
+    expect(lines[1]).toBe("r ^ .  |  r v .  |  . ~ .");
+    expect(lines[3]).toContain(
+      "1 missing (+), 1 extra (-), 1 wrong (~)"
+    );
+  });
+
+  test("should highlight differing cells with ANSI colors in fancy mode", () => {
+    const out = renderDiff(goal, current, { fancy: true });
+
+    expect(out).toContain("\x1b[42m");
+    expect(out).toContain("\x1b[41m");
+    expect(out).toContain("\x1b[43m");
+  });
+
+  test("should only use fancy output on a TTY without NO_COLOR", () => {
+    const noColor = process.env.NO_COLOR;
+    delete process.env.NO_COLOR;
+
+    expect(isFancyOutput({ isTTY: true })).toBe(true);
+    expect(isFancyOutput({ isTTY: false })).toBe(false);
+
+    process.env.NO_COLOR = "1";
+    expect(isFancyOutput({ isTTY: true })).toBe(false);
+
+    if (noColor === undefined) delete process.env.NO_COLOR;
+    else process.env.NO_COLOR = noColor;
+  });
+});
@@ -1,5 +1,7 @@
 import { retry } from "../../src/utils/retry";
+import { RateLimitedError } from "../../src/api/errors";
 import { sleep } from "../../src/utils/sleep";
+import { FakeClock } from "../../src/utils/clock";
 
 // Mock sleep to avoid waiting in tests
 jest.mock("../../src/utils/sleep", () => ({
@@ -56,11 +58,9 @@ describe("retry utility", () => {
 
   test("should handle 429 rate limit errors with longer delays", async () => {
     // Create a rate limit error with headers
-    const rateError = new Error("429 Rate limit exceeded");
-    Object.defineProperty(rateError, "headers", {
-      value: {
-        get: jest.fn().mockReturnValue("5"), // Retry-After: 5 seconds
-      },
+    const rateError = new RateLimitedError("Rate limit exceeded", {
+      status: 429,
+      headers: new Headers({ "retry-after": "5" }),
     });
 
     const fn = jest
@@ -78,6 +78,86 @@ describe("retry utility", () => {
     );
   });
 
+  test("should report an unreadable Retry-After through the logger", async () => {
+    const rateError = new RateLimitedError("Rate limit exceeded", {
+      status: 429,
+    });
+    rateError.headers = {
+      get: () => {
+        throw new Error("bad headers");
+      },
+    } as unknown as Headers;
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(rateError)
+      .mockResolvedValueOnce("success");
+
+    await retry(fn, { jitter: false, minTimeout: 100, logger });
+
+    // Falls back to twice the backoff
+    expect(sleep).toHaveBeenCalledWith(200, undefined);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Could not parse header, using default delay",
+      { error: expect.any(Error) }
+    );
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  test("should fall back to the default delay for a garbage Retry-After", async () => {
+    const rateError = new RateLimitedError("Rate limit exceeded", {
+      status: 429,
+      headers: new Headers({ "retry-after": "soon" }),
+    });
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const onRetry = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(rateError)
+      .mockResolvedValueOnce("success");
+
+    await retry(fn, {
+      jitter: false,
+      minTimeout: 100,
+      logger,
+      onRetry,
+    });
+
+    // Twice the backoff, never NaN
+    expect(sleep).toHaveBeenCalledWith(200, undefined);
+    expect(onRetry).toHaveBeenCalledWith(rateError, 1, 200);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Could not parse Retry-After "soon", using default delay',
+      { retryAfter: "soon", delayMs: 200 }
+    );
+  });
+
+  test("should not mistake a message mentioning 429 for a rate limit", async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("cell 4291 is out of range"))
+      .mockResolvedValueOnce("success");
+
+    await retry(fn, { jitter: false, minTimeout: 100 });
+
+    expect(sleep).toHaveBeenCalledWith(100, undefined);
+    expect(console.warn).not.toHaveBeenCalledWith(
+      expect.stringContaining("Rate limited")
+    );
+  });
+
   test("should call onRetry callback if provided", async () => {
     const onRetry = jest.fn();
     const fn = jest
@@ -109,4 +189,47 @@ describe("retry utility", () => {
     expect(sleep).not.toHaveBeenCalled();
     expect(shouldRetry).toHaveBeenCalledTimes(1);
   });
+
+  test("should stop retrying once the signal aborts", async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new Error("502 Bad Gateway");
+    });
+
+    await expect(
+      retry(fn, { signal: controller.signal })
+    ).rejects.toThrow("502 Bad Gateway");
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test("should back off on an injected clock, reproducibly from a seed", async () => {
+    const run = async (seed: number) => {
+      const clock = new FakeClock({ seed });
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("502 Bad Gateway"))
+        .mockRejectedValueOnce(new Error("502 Bad Gateway"))
+        .mockRejectedValueOnce(new Error("502 Bad Gateway"))
+        .mockResolvedValueOnce("ok");
+
+      await retry(fn, {
+        clock,
+        minTimeout: 60 * 60 * 1000, // an hour per attempt
+        maxTimeout: 4 * 60 * 60 * 1000,
+      });
+      return clock.now();
+    };
+
+    const elapsed = await run(7);
+
+    // 1h + 2h + 4h, each scaled by 0.7–1.3 jitter
+    expect(elapsed).toBeGreaterThan(0.7 * 7 * 60 * 60 * 1000);
+    expect(elapsed).toBeLessThan(1.3 * 7 * 60 * 60 * 1000);
+    expect(await run(7)).toBe(elapsed);
+    expect(await run(8)).not.toBe(elapsed);
+    expect(sleep).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,163 @@
+import { RunMetrics, printReport } from "../../src/utils/runReport";
+import { FakeClock } from "../../src/utils/clock";
+import { Operation } from "../../src/orchestrator/planReconciliation";
+
+describe("runReport", () => {
+  const polyanet: Operation = {
+    kind: "create",
+    row: 0,
+    column: 1,
+    body: "POLYANET",
+  };
+  const soloon: Operation = {
+    kind: "replace",
+    row: 1,
+    column: 1,
+    body: "RED_SOLOON",
+    previous: "BLUE_SOLOON",
+  };
+
+  test("adds up operations, retries and time", async () => {
+    const clock = new FakeClock({ start: 1_000 });
+    const metrics = new RunMetrics("build", clock);
+    metrics.concurrencyChanged(3);
+
+    metrics.attempted(polyanet);
+    metrics.sent(1, 200);
+    metrics.rateLimitHit();
+    metrics.retried(1_500);
+    metrics.sent(1, 300);
+    metrics.settled(polyanet, true);
+
+    metrics.attempted(soloon);
+    metrics.sent(2, 500);
+    metrics.settled(soloon, false);
+
+    metrics.slept(3_000);
+    await clock.advance(4_000);
+    metrics.concurrencyChanged(4);
+    metrics.finish([soloon]);
+
+    expect(metrics.toReport()).toEqual({
+      action: "build",
+      startedAt: "1970-01-01T00:00:01.000Z",
+      durationMs: 4_000,
+      operations: {
+        polyanet: { attempted: 1, succeeded: 1, failed: 0 },
+        soloon: { attempted: 1, succeeded: 0, failed: 1 },
+      },
+      retries: 1,
+      rateLimited: 1,
+      sleepingMs: 4_500,
+      inFlightMs: 1_000,
+      requests: 4,
+      requestsPerSecond: 1,
+      concurrency: [
+        { atMs: 0, concurrency: 3 },
+        { atMs: 4_000, concurrency: 4 },
+      ],
+      cancelled: false,
+      wrongCells: [soloon],
+      skipped: [],
+    });
+  });
+
+  test("counts requests from the limiter's totals when given them", async () => {
+    const clock = new FakeClock();
+    // What earlier runs left in the totals
+    const totals = {
+      requests: 10,
+      waitingMs: 500,
+      inFlightMs: 900,
+      rateLimited: 1,
+    };
+    const metrics = new RunMetrics("build", clock, () => ({
+      ...totals,
+    }));
+
+    metrics.sent(1, 400); // One write, timed around the limiter wait...
+    metrics.slept(250);
+    // ...plus two map reads, one of them rate limited
+    totals.requests += 3;
+    totals.waitingMs += 300;
+    totals.inFlightMs += 100;
+    totals.rateLimited += 1;
+    await clock.advance(2_000);
+    metrics.finish([]);
+    totals.requests += 5; // After the run: not counted
+
+    expect(metrics.toReport()).toMatchObject({
+      requests: 3,
+      requestsPerSecond: 1.5,
+      inFlightMs: 100,
+      sleepingMs: 550,
+      rateLimited: 1,
+    });
+  });
+
+  test("prints totals and the cells still wrong", () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const metrics = new RunMetrics("clean", new FakeClock());
+    metrics.concurrencyChanged(3);
+    metrics.finish([{ ...polyanet, kind: "delete" }]);
+
+    printReport(metrics.toReport(), logger);
+
+    const info = logger.info.mock.calls.map(([line]) => line);
+    expect(info[0]).toBe(
+      "📊 clean report: 0.0s, 0 requests (0.00 req/sec)"
+    );
+    expect(info).toContain("   concurrency: 3");
+    expect(logger.warn).toHaveBeenCalledWith(
+      "   [0,1] needs delete POLYANET"
+    );
+  });
+
+  test("lists the unknown cells a run left alone", () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const metrics = new RunMetrics("clean", new FakeClock());
+    metrics.finish([], false, [{ row: 2, column: 3 }]);
+
+    printReport(metrics.toReport(), logger);
+
+    expect(logger.info).not.toHaveBeenCalledWith(
+      "   ✅ Every cell matches."
+    );
+    expect(logger.warn.mock.calls.map(([line]) => line)).toEqual([
+      "   ⏭️ 1 unknown cells left alone:",
+      "   [2,3]",
+    ]);
+  });
+
+  test("lists what an interrupted run left to do", () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn(),
+    };
+    const metrics = new RunMetrics("build", new FakeClock());
+    metrics.finish([polyanet], true);
+
+    printReport(metrics.toReport(), logger);
+
+    expect(metrics.toReport().cancelled).toBe(true);
+    expect(logger.warn.mock.calls.map(([line]) => line)).toEqual([
+      "   ✋ Interrupted, 1 operations left:",
+      "   [0,1] needs create POLYANET",
+    ]);
+  });
+});
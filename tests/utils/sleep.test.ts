@@ -17,4 +17,17 @@ describe("sleep utility", () => {
     // Restore timers
     jest.useRealTimers();
   });
+
+  test("should reject with the abort reason when the signal aborts", async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+
+    const sleepPromise = sleep(1000, controller.signal);
+    controller.abort(new Error("stop"));
+
+    await expect(sleepPromise).rejects.toThrow("stop");
+    expect(jest.getTimerCount()).toBe(0);
+
+    jest.useRealTimers();
+  });
 });